@@ -2,24 +2,79 @@
 
 'use strict';
 
+const fs = require('fs');
 const readline = require('readline');
+const util = require('util');
 
-const GdwAwsLambda = require('../lib/main');
-
-const lambda = new GdwAwsLambda();
+const {
+    GdwAwsLambda,
+    GaldError,
+    ConfigError,
+    ConfigDriftError,
+    FunctionNotFoundError
+} = require('../lib/main');
 
 const CMD_INIT = 'init';
 const CMD_TEST = 'test';
+const CMD_PACKAGE = 'package';
+const CMD_PLAN = 'plan';
+const CMD_SERVE = 'serve';
+const CMD_GENERATE_EVENT = 'generate-event';
 const CMD_DEPLOY = 'deploy';
+const CMD_ROLLBACK = 'rollback';
+const CMD_VERSIONS = 'versions';
+const CMD_INVOKE = 'invoke';
+const CMD_LOGS = 'logs';
+const CMD_PULL = 'pull';
+const CMD_VALIDATE = 'validate';
+const CMD_WHOAMI = 'whoami';
+
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+const EXIT_INVALID_CONFIG = 3;
+const EXIT_NOT_FOUND = 4;
+const EXIT_DRIFT = 5;
+
+let lambda;
+let command;
 
 let verbose;
+let json;
 let force;
+let noCreate;
+let failOnDrift;
+let stage;
+let reporter = 'pretty';
+let output;
+let isolate;
+let concurrency;
+let port;
+let params = {};
+let append;
+let name;
+let toVersion;
+let prune;
+let createRole;
+let eventFile;
+let testName;
+let qualifier;
+let async;
+let remote;
+let follow;
+let since;
+let filter;
+let region;
+let profile;
+let omitEnv;
+let code;
 
 processCommand();
 
 function processCommand () {
 
     let remainingArguments = [];
+    let testOptions;
     let args = process.argv;
     let length = args.length;
 
@@ -34,12 +89,159 @@ function processCommand () {
 
                     verbose = true;
 
+                    break;
+                case '--json':
+
+                    json = true;
+
                     break;
                 case '-f':
                 case '--force':
+                case '-y':
+                case '--yes':
 
                     force = true;
 
+                    break;
+                case '--no-create':
+
+                    noCreate = true;
+
+                    break;
+                case '--fail-on-drift':
+
+                    failOnDrift = true;
+
+                    break;
+                case '-s':
+                case '--stage':
+
+                    stage = args[++i];
+
+                    break;
+                case '-r':
+                case '--reporter':
+
+                    reporter = args[++i];
+
+                    break;
+                case '-o':
+                case '--output':
+
+                    output = args[++i];
+
+                    break;
+                case '--isolate':
+
+                    isolate = true;
+
+                    break;
+                case '--serial':
+
+                    concurrency = 1;
+
+                    break;
+                case '-c':
+                case '--concurrency':
+
+                    concurrency = parseInt(args[++i], 10);
+
+                    break;
+                case '-p':
+                case '--port':
+
+                    port = parseInt(args[++i], 10);
+
+                    break;
+                case '--param':
+
+                    addParam(args[++i]);
+
+                    break;
+                case '--append':
+
+                    append = true;
+
+                    break;
+                case '--name':
+
+                    name = args[++i];
+
+                    break;
+                case '--to':
+
+                    toVersion = args[++i];
+
+                    break;
+                case '--prune':
+
+                    prune = true;
+
+                    break;
+                case '--create-role':
+
+                    createRole = true;
+
+                    break;
+                case '--event':
+
+                    eventFile = args[++i];
+
+                    break;
+                case '--test':
+
+                    testName = args[++i];
+
+                    break;
+                case '--qualifier':
+
+                    qualifier = args[++i];
+
+                    break;
+                case '--async':
+
+                    async = true;
+
+                    break;
+                case '--remote':
+
+                    remote = true;
+
+                    break;
+                case '--follow':
+
+                    follow = true;
+
+                    break;
+                case '--since':
+
+                    since = args[++i];
+
+                    break;
+                case '--filter':
+
+                    filter = args[++i];
+
+                    break;
+                case '--region':
+
+                    region = args[++i];
+
+                    break;
+                case '--profile':
+
+                    profile = args[++i];
+
+                    break;
+                case '--omit-env':
+
+                    omitEnv = true;
+
+                    break;
+                case '--code':
+
+                    code = true;
+
                     break;
                 default:
 
@@ -48,14 +250,44 @@ function processCommand () {
         }
     }
 
-    switch (args[2]) {
+    lambda = new GdwAwsLambda({
+        stage: stage,
+        mfaToken: isInteractive() ? askMfaToken : undefined
+    });
+    command = args[2];
+
+    switch (command) {
         case CMD_INIT:
 
+            // The role is named after the FunctionName of an existing config
+            if (createRole && !fs.existsSync(GdwAwsLambda.FILE_LAMBDA_CONFIG)) {
+
+                let error = new GaldError(
+                    GaldError.INVALID_OPTION,
+                    '--create-role needs a FunctionName, run init ' +
+                    'without it and fill in ' +
+                    GdwAwsLambda.FILE_LAMBDA_CONFIG + ' first',
+                    { field: 'createRole' }
+                );
+
+                fail(error.message, error);
+
+                break;
+            }
+
             lambda.init()
+                .then((result) => {
+
+                    if (!createRole) return result;
+
+                    return lambda.createRole()
+                        .then((message) => result.concat(message));
+
+                })
                 .then(
                     (result) => {
 
-                        printMessage(
+                        printResult(
                             'Lambda configuration initialised',
                             result
                         );
@@ -63,95 +295,433 @@ function processCommand () {
                     },
                     (error) => {
 
-                        printMessage(
+                        fail(
                             'Lambda configuration failed to initialise',
                             error
                         );
 
                     });
 
+            break;
+        case CMD_VALIDATE:
+
+            lambda.validate(remainingArguments[0])
+                .then(
+                    (result) => {
+
+                        json ? printJsonResult(result)
+                            : result.forEach((message) => console.log(message));
+
+                    },
+                    (error) => {
+
+                        fail(error.message, error);
+
+                    });
+
+            break;
+        case CMD_WHOAMI:
+
+            lambda.whoami()
+                .then(
+                    (result) => {
+
+                        json ? printJsonResult(result) : printIdentity(result);
+
+                    },
+                    (error) => {
+
+                        fail(
+                            'Failed to resolve AWS credentials',
+                            error
+                        );
+
+                    });
+
+            break;
+        case CMD_PULL:
+
+            lambda.pull(remainingArguments[0], {
+                region: region,
+                profile: profile,
+                omitEnvironment: omitEnv,
+                code: code,
+                overwrite: force
+            })
+                .then(
+                    (result) => {
+
+                        printResult(
+                            'Lambda configuration pulled',
+                            result
+                        );
+
+                    },
+                    (error) => {
+
+                        fail(
+                            'Failed to pull Lambda configuration',
+                            error
+                        );
+
+                    });
+
             break;
         case CMD_TEST:
 
+            if (GdwAwsLambda.TEST_REPORTERS.indexOf(reporter) === -1 ||
+                concurrency !== undefined && !(concurrency > 0)) {
+
+                printTestUsage();
+
+                process.exitCode = EXIT_USAGE;
+
+                break;
+            }
+
+            testOptions = {
+                isolate: isolate,
+                concurrency: concurrency,
+                remote: remote,
+                qualifier: qualifier
+            };
+
             switch (remainingArguments.length) {
                 case 0:
 
-                    lambda.test()
+                    lambda.test(undefined, testOptions)
                         .then(onTestResult, onTestError);
 
                     break;
                 case 1:
 
-                    lambda.test(remainingArguments[0])
+                    lambda.test(remainingArguments[0], testOptions)
                         .then(onTestResult, onTestError);
 
                     break;
                 default:
 
                     printTestUsage();
+
+                    process.exitCode = EXIT_USAGE;
+            }
+
+            break;
+        case CMD_PACKAGE:
+
+            lambda.package()
+                .then(
+                    (result) => {
+
+                        printResult(
+                            'Lambda packaged',
+                            result
+                        );
+
+                    },
+                    (error) => {
+
+                        fail(
+                            'Failed to package Lambda',
+                            error
+                        );
+
+                    });
+
+            break;
+        case CMD_PLAN:
+
+            lambda.plan()
+                .then(
+                    (result) => {
+
+                        json ? printJsonResult(result) : printPlan(result);
+
+                    },
+                    (error) => {
+
+                        fail(
+                            'Failed to plan Lambda deploy',
+                            error
+                        );
+
+                    });
+
+            break;
+        case CMD_SERVE:
+
+            lambda.serve({
+                port: port,
+                log: printProgress
+            })
+                .then(
+                    (server) => {
+
+                        json ? printJsonResult({port: server.address().port})
+                            : console.log(
+                                'Listening on http://localhost:' +
+                                server.address().port
+                            );
+
+                    },
+                    (error) => {
+
+                        fail(
+                            'Failed to start server',
+                            error
+                        );
+
+                    });
+
+            break;
+        case CMD_GENERATE_EVENT:
+
+            if (remainingArguments.length < 1 ||
+                remainingArguments.length > 2 ||
+                GdwAwsLambda.EVENT_SOURCES
+                    .indexOf(remainingArguments[0]) === -1) {
+
+                printGenerateEventUsage();
+
+                process.exitCode = EXIT_USAGE;
+
+            } else if (append) {
+
+                lambda.addEventTest(remainingArguments[0], params, {
+                    name: name,
+                    testFileName: remainingArguments[1]
+                })
+                    .then(
+                        (result) => {
+
+                            printResult(
+                                'Event test added',
+                                result
+                            );
+
+                        },
+                        (error) => {
+
+                            fail(
+                                'Failed to add event test',
+                                error
+                            );
+
+                        });
+
+            } else if (json) {
+
+                printJsonResult(
+                    GdwAwsLambda.generateEvent(remainingArguments[0], params)
+                );
+
+            } else {
+
+                console.log(JSON.stringify(
+                    GdwAwsLambda.generateEvent(remainingArguments[0], params),
+                    null,
+                    2
+                ));
+
             }
 
             break;
         case CMD_DEPLOY:
 
-            lambda.deploy()
+            lambda.deploy({
+                prune: prune,
+                createRole: createRole,
+                log: printProgress
+            })
                 .then(onDeployResult, onDeployError);
 
+            break;
+        case CMD_ROLLBACK:
+
+            lambda.rollback({ to: toVersion })
+                .then(
+                    (result) => {
+
+                        json ? printJsonResult(result) : console.log(result);
+
+                    },
+                    (error) => {
+
+                        fail(
+                            'Failed to roll back Lambda',
+                            error
+                        );
+
+                    });
+
+            break;
+        case CMD_INVOKE:
+
+            lambda.invoke({
+                eventFile: eventFile,
+                testName: testName,
+                qualifier: qualifier,
+                async: async
+            })
+                .then(
+                    (results) => {
+
+                        printInvokeResults(results);
+
+                    },
+                    (error) => {
+
+                        fail(
+                            'Failed to invoke Lambda',
+                            error
+                        );
+
+                    });
+
+            break;
+        case CMD_LOGS:
+
+            readLogs(lambda.logs({
+                since: since,
+                filter: filter,
+                follow: follow
+            }));
+
+            break;
+        case CMD_VERSIONS:
+
+            lambda.versions()
+                .then(
+                    (result) => {
+
+                        json ? printJsonResult(result) : printVersions(result);
+
+                    },
+                    (error) => {
+
+                        fail(
+                            'Failed to list Lambda versions',
+                            error
+                        );
+
+                    });
+
             break;
         default:
 
             printUsage();
+
+            if (command !== undefined) process.exitCode = EXIT_USAGE;
+    }
+}
+
+/**
+ * Adds a key=value pair to the event parameters
+ *
+ * @param {string} param
+ */
+function addParam (param) {
+
+    let index = param ? param.indexOf('=') : -1;
+
+    if (index > 0) {
+
+        params[param.substring(0, index)] = param.substring(index + 1);
+
     }
 }
 
+/**
+ * Creates the function or updates its configuration after a confirmation,
+ * --force confirms and --no-create or --fail-on-drift refuse.
+ * Without a terminal nobody can answer, so the deploy fails instead
+ *
+ * @param {GaldError} error
+ */
 function onDeployError (error) {
 
-    switch (error) {
-        case GdwAwsLambda.ERR_LAMBDA_NOT_FOUND:
+    let question;
+    let refused;
+    let reason;
 
-            askConfirmation(
-                'Create AWS Lambda function (' +
-                lambda.lambdaCfg.FunctionName + ')?',
-                true,
-                onConfirmation
-            );
+    switch (error && error.code) {
+        case FunctionNotFoundError.CODE:
+
+            question = 'Create AWS Lambda function (' +
+                error.functionName + ')?';
+            refused = noCreate;
+            reason = 'Lambda function (' + error.functionName +
+                ') not found';
 
             break;
-        case GdwAwsLambda.ERR_LAMBDA_CONFIG:
+        case ConfigDriftError.CODE:
 
-            askConfirmation(
-                'Update AWS Lambda function (' +
-                lambda.lambdaCfg.FunctionName + ') configuration?',
-                true,
-                onConfirmation
-            );
+            if (!json) printChanges(error.changes);
+
+            question = 'Update AWS Lambda function (' +
+                error.functionName + ') configuration?';
+            refused = failOnDrift;
+            reason = 'Lambda function (' + error.functionName +
+                ') configuration differs';
 
             break;
         default:
 
-            printMessage(
+            fail(
                 'Failed to deploy Lambda',
                 error
             );
+
+            return;
     }
 
-    function onConfirmation (answer) {
+    if (refused) {
 
-        if (answer) {
+        fail(reason, error);
 
-            switch (error) {
-                case GdwAwsLambda.ERR_LAMBDA_NOT_FOUND:
+    } else if (force) {
 
-                    lambda.deploy({ create: true })
-                        .then(onDeployResult, onErrorDeploy);
+        onConfirmation(true);
 
-                    break;
-                case GdwAwsLambda.ERR_LAMBDA_CONFIG:
+    } else if (!isInteractive()) {
 
-                    lambda.deploy({ updateConfig: true })
-                        .then(onDeployResult, onErrorDeploy);
-            }
+        fail(reason + ', use --force to confirm', error);
+
+    } else {
+
+        askConfirmation(question, true, onConfirmation);
+
+    }
+
+    function onConfirmation (answer) {
+
+        if (!answer) {
 
+            fail('Lambda deploy cancelled', error);
+
+            return;
+        }
+
+        switch (error.code) {
+            case FunctionNotFoundError.CODE:
+
+                lambda.deploy({
+                    create: true,
+                    prune: prune,
+                    createRole: createRole,
+                    log: printProgress
+                })
+                    .then(onDeployResult, onErrorDeploy);
+
+                break;
+            case ConfigDriftError.CODE:
+
+                lambda.deploy({
+                    updateConfig: true,
+                    prune: prune,
+                    log: printProgress
+                })
+                    .then(onDeployResult, onErrorDeploy);
         }
     }
 
@@ -159,7 +729,7 @@ function onDeployError (error) {
 
 function onDeployResult (result) {
 
-    printMessage(
+    printResult(
         'Lambda deployed',
         result
     );
@@ -167,25 +737,284 @@ function onDeployResult (result) {
 
 function onErrorDeploy (error) {
 
-    printMessage(
+    fail(
         'Failed to deploy Lambda',
         error
     );
 }
 
-function onTestResult (result) {
+/**
+ * @param {Array.<LambdaTestResult>} results
+ */
+function onTestResult (results) {
+
+    let report = GdwAwsLambda.report(results, reporter, verbose);
+    let failed = results.some((test) => !test.passed);
+
+    if (output) {
+
+        fs.writeFile(output, report + '\n', 'utf8', (err) => {
+
+            if (err) {
+
+                fail('Failed to write file ' + output, err);
+
+            } else {
+
+                json ? printTestResults(results, failed)
+                    : console.log('Test report written to ' + output);
 
-    console.log('Tests completed', result);
+                process.exit(failed ? EXIT_FAILURE : EXIT_SUCCESS);
+
+            }
+
+        });
+
+    } else {
+
+        json ? printTestResults(results, failed) : console.log(report);
+
+        // Handlers can leave timers or sockets open
+        process.exit(failed ? EXIT_FAILURE : EXIT_SUCCESS);
+
+    }
 }
 
 function onTestError (error) {
 
-    printMessage(
+    fail(
         'Tests failed to complete',
         error
     );
 }
 
+/**
+ * @param {Array.<LambdaTestResult>} results
+ * @param {boolean} failed
+ */
+function printTestResults (results, failed) {
+
+    printJsonResult(
+        JSON.parse(GdwAwsLambda.report(results, 'json', verbose)),
+        !failed
+    );
+}
+
+/**
+ * @param {LambdaPlan} plan
+ */
+function printPlan (plan) {
+
+    if (!plan.exists) {
+
+        console.log(
+            'Lambda function (' + plan.FunctionName + ') will be created'
+        );
+
+    } else if (plan.changes.length === 0 && !plan.codeChanged) {
+
+        console.log(
+            'Lambda function (' + plan.FunctionName + ') is up-to-date'
+        );
+
+        return;
+
+    } else {
+
+        console.log(
+            'Lambda function (' + plan.FunctionName + ') will be updated'
+        );
+
+    }
+
+    printChanges(plan.changes);
+
+    if (plan.codeChanged) console.log('  ~ Code');
+}
+
+/**
+ * @param {Array.<ConfigChange>} changes
+ */
+function printChanges (changes) {
+
+    changes.forEach((change) => {
+
+        switch (change.action) {
+            case 'add':
+
+                console.log('  + ' + change.field + ': ' +
+                    formatValue(change.local));
+
+                break;
+            case 'remove':
+
+                console.log('  - ' + change.field + ': ' +
+                    formatValue(change.remote));
+
+                break;
+            default:
+
+                console.log('  ~ ' + change.field + ': ' +
+                    formatValue(change.remote) + ' -> ' +
+                    formatValue(change.local));
+        }
+
+    });
+}
+
+/**
+ * @param {CallerIdentity} identity
+ */
+function printIdentity (identity) {
+
+    console.log('Account:     ' + identity.account);
+    console.log('ARN:         ' + identity.arn);
+    console.log('Region:      ' + identity.region);
+    console.log('Credentials: ' + identity.credentials);
+}
+
+/**
+ * @param {Array.<LambdaVersion>} versions
+ */
+function printVersions (versions) {
+
+    if (versions.length === 0) {
+
+        console.log('No published versions');
+
+        return;
+    }
+
+    versions.forEach((version) => {
+
+        let line = version.Version + '\t' + version.CodeSha256 + '\t' +
+            version.LastModified + '\t' + version.Description;
+
+        if (version.aliases.length > 0) {
+
+            line += '\t(' + version.aliases.join(', ') + ')';
+
+        }
+
+        console.log(line);
+
+    });
+}
+
+/**
+ * @param {Array.<InvokeResult>} results
+ */
+function printInvokeResults (results) {
+
+    let failed = results.some((result) => !!result.FunctionError);
+
+    if (json) {
+
+        printJsonResult(results, !failed);
+
+        process.exit(failed ? EXIT_FAILURE : EXIT_SUCCESS);
+
+    }
+
+    results.forEach((result) => {
+
+        console.log('Status ' + result.StatusCode +
+            (result.ExecutedVersion ?
+                ' (version ' + result.ExecutedVersion + ')' : ''));
+
+        if (result.FunctionError) {
+
+            console.log('Function error: ' + result.FunctionError);
+
+        }
+
+        if (result.payload !== undefined) {
+
+            console.log(JSON.stringify(result.payload, null, 2));
+
+        }
+
+        if (result.log) {
+
+            console.log('\nLog tail:\n' + result.log);
+
+        }
+
+    });
+
+    process.exit(failed ? EXIT_FAILURE : EXIT_SUCCESS);
+}
+
+/**
+ * Prints log events one by one until the iterator is done
+ *
+ * @param {AsyncIterator.<LogEvent>} events
+ */
+function readLogs (events) {
+
+    events.next()
+        .then(
+            (result) => {
+
+                if (!result.done) {
+
+                    printLogEvent(result.value);
+                    readLogs(events);
+
+                }
+
+            },
+            (error) => {
+
+                fail(
+                    'Failed to read Lambda logs',
+                    error
+                );
+
+            });
+}
+
+/**
+ * With --json every event is printed as one line of JSON
+ *
+ * @param {LogEvent} event
+ */
+function printLogEvent (event) {
+
+    if (json) {
+
+        printJson(event);
+
+        return;
+    }
+
+    let time = new Date(event.timestamp).toISOString();
+    let report = event.report;
+
+    if (!report) {
+
+        console.log(time + ' ' + event.message);
+
+        return;
+    }
+
+    let line = 'REPORT ' + report.requestId +
+        '  Duration: ' + report.duration + ' ms' +
+        '  Billed: ' + report.billedDuration + ' ms' +
+        '  Memory: ' + report.maxMemoryUsed + '/' + report.memorySize + ' MB' +
+        (report.initDuration !== undefined ?
+            '  Init: ' + report.initDuration + ' ms' : '');
+
+    // Bold, so invocations stand out between the log lines
+    console.log(time + ' ' +
+        (process.stdout.isTTY ? '\x1b[1m' + line + '\x1b[0m' : line));
+}
+
+function formatValue (value) {
+
+    return value === undefined ? '(none)' : JSON.stringify(value);
+}
+
 /**
  * Ask a yes/no question
  *
@@ -245,22 +1074,227 @@ function askConfirmation (question, defaultAnswer, callback) {
     }
 }
 
+/**
+ * Asks for the code of an MFA device, only used with a terminal
+ *
+ * @param {string} serialNumber
+ * @returns {Promise.<string>}
+ */
+function askMfaToken (serialNumber) {
+
+    return new Promise((resolve) => {
+
+        const rl = readline.createInterface({
+            'input': process.stdin,
+            'output': process.stdout
+        });
+
+        rl.question('MFA token for ' + serialNumber + ': ', (answer) => {
+
+            rl.close();
+            resolve(answer.trim());
+
+        });
+
+    });
+}
+
+/**
+ * With --json progress goes to stderr, so stdout stays valid JSON
+ *
+ * @param {string} msg
+ */
+function printProgress (msg) {
+
+    json ? console.error(msg) : console.log(msg);
+}
+
 function printMessage (msg, data) {
 
     verbose ? console.log(msg, data)
         : console.log(msg);
 }
 
+function printResult (msg, result) {
+
+    json ? printJsonResult(result) : printMessage(msg, result);
+}
+
+/**
+ * @param {*} result
+ * @param {boolean} [ok] False when the command ran but failed
+ */
+function printJsonResult (result, ok) {
+
+    printJson({
+        command: command,
+        ok: ok !== false,
+        result: result
+    });
+}
+
+function printJson (value) {
+
+    console.log(JSON.stringify(value));
+}
+
+/**
+ * Prints the error and exits with the exit code matching it
+ *
+ * @param {string} msg
+ * @param {*} error
+ */
+function fail (msg, error) {
+
+    if (json) {
+
+        printJson({
+            command: command,
+            ok: false,
+            error: serializeError(error)
+        });
+
+    } else {
+
+        printMessage(msg, error);
+
+    }
+
+    process.exit(getExitCode(error));
+}
+
+/**
+ * @param {*} error
+ * @returns {number}
+ */
+function getExitCode (error) {
+
+    switch (error && error.code) {
+        case ConfigError.CODE:
+
+            return EXIT_INVALID_CONFIG;
+        case FunctionNotFoundError.CODE:
+
+            return EXIT_NOT_FOUND;
+        case ConfigDriftError.CODE:
+
+            return EXIT_DRIFT;
+        case GaldError.INVALID_OPTION:
+
+            return EXIT_USAGE;
+        default:
+
+            return EXIT_FAILURE;
+    }
+}
+
+/**
+ * Errors have no enumerable message, JSON.stringify would drop it.
+ * Causes are serialized the same way, a list of causes as a list,
+ * and every violation gets the field it is about
+ *
+ * @param {*} error
+ * @returns {Object|Array.<Object>}
+ */
+function serializeError (error) {
+
+    if (Array.isArray(error)) return error.map(serializeError);
+
+    if (error === null || typeof error !== 'object') {
+
+        return { message: String(error) };
+
+    }
+
+    let result = error instanceof Error ? { name: error.name } : {};
+
+    result.message = typeof error.message === 'string' ? error.message
+        : util.inspect(error, { depth: 1, breakLength: Infinity });
+
+    Object.keys(error).forEach((key) => {
+
+        let value = error[key];
+
+        if (value === undefined || key === 'message') return;
+
+        if (key === 'cause') {
+
+            result.cause = serializeError(value);
+
+        } else if (key === 'violations' && Array.isArray(value)) {
+
+            result.violations = value.map((violation) => {
+
+                return {
+                    field: String(violation.path).replace(/^\$\.?/, ''),
+                    path: violation.path,
+                    message: violation.message
+                };
+
+            });
+
+        } else {
+
+            result[key] = value;
+
+        }
+
+    });
+
+    return result;
+}
+
+function isInteractive () {
+
+    return !json && !!process.stdin.isTTY;
+}
+
 function printUsage () {
     console.info(
         '\n  Usage: node-lambda [command] [options]\n' +
         '\n  Commands:\n\n' +
         '    init\t\tCreate the config files\n' +
+        '    pull <name>\t\tCreate the config files from a deployed Lambda\n' +
         '    test\t\tRun test\n' +
+        '    package\t\tCreate the archive\n' +
+        '    validate [tests_file]\tCheck the config files\n' +
+        '    whoami\t\tShow the AWS account and identity in use\n' +
+        '    plan\t\tShow the changes deploy would make\n' +
+        '    serve\t\tServe the Lambda like API Gateway does\n' +
+        '    generate-event\tCreate an example event\n' +
         '    deploy\t\tDeploy the Lambda to AWS\n' +
+        '    invoke\t\tInvoke the deployed Lambda\n' +
+        '    versions\t\tList the published versions\n' +
+        '    logs\t\tShow the CloudWatch logs of the Lambda\n' +
+        '    rollback\t\tPoint the alias at the previous version\n' +
         '\n  Options:\n\n' +
         '    -v, --verbose\tVerbose\n' +
-        '    -f, --force  \tForce, yes to all confirmations' +
+        '    --json\t\tPrint the result as JSON\n' +
+        '    -f, --force  \tForce, yes to all confirmations\n' +
+        '    -y, --yes\t\tSame as --force\n' +
+        '    --no-create\t\tFail deploy when the Lambda does not exist\n' +
+        '    --fail-on-drift\tFail deploy when the configuration differs\n' +
+        '    -s, --stage <name>\tUse the configuration of a stage\n' +
+        '    -p, --port <port>\tPort for serve, defaults to 3000\n' +
+        '    --to <version>\tVersion for rollback,' +
+        ' defaults to the previous one\n' +
+        '    --prune\t\tDelete event source mappings' +
+        ' that are not declared\n' +
+        '    --create-role\tCreate an execution role' +
+        ' when Role is empty\n' +
+        '    --event <file>\tEvent for invoke\n' +
+        '    --test <name>\tInvoke with the events of a test\n' +
+        '    --qualifier <name>\tVersion or alias for invoke and' +
+        ' test --remote\n' +
+        '    --async\t\tInvoke without waiting for the result\n' +
+        '    --since <time>\tStart of logs, like 30s, 10m, 2h or a date,' +
+        ' defaults to 10m\n' +
+        '    --filter <pattern>\tCloudWatch Logs filter pattern for logs\n' +
+        '    --follow\t\tKeep polling for new log events\n' +
+        '    --region <name>\tRegion for pull\n' +
+        '    --profile <name>\tCredentials profile for pull\n' +
+        '    --omit-env\t\tPull the environment variables without values\n' +
+        '    --code\t\tPull the code into archive.zip as well' +
         '\n'
     );
 }
@@ -269,10 +1303,20 @@ function printTestUsage () {
 
     console.info(
         '\n  Usage: node-lambda test [tests_file] [options]\n' +
+        '\n  Options:\n\n' +
+        '    -r, --reporter <name>\tpretty (default), json, junit or tap\n' +
+        '    -o, --output <file>\tWrite the report to a file\n' +
+        '    --isolate\t\tRun every test in a new process\n' +
+        '    --serial\t\tRun one test at a time\n' +
+        '    -c, --concurrency <n>\tRun at most n tests at a time\n' +
+        '    --remote\t\tRun the tests against the deployed Lambda\n' +
+        '    --qualifier <name>\tVersion or alias for --remote\n' +
         '\n  tests_file:\t\tJSON file with following structure:\n' +
         '               \t\t{Array.<{name: string, context: ?Object,' +
-        ' events: Array.<Object>}>}\n' +
+        ' events: Array.<Object>, expect: ?Array.<?Object>}>}\n' +
         '               \t\tA test object can have a property {string} name.\n' +
+        '               \t\tThe expect entry at the index of an event\n' +
+        '               \t\tcan hold result, error, match and paths.\n' +
         '               \t\tFor example:\n\n' +
         '               \t\t[\n' +
         '               \t\t  {\n' +
@@ -293,10 +1337,31 @@ function printTestUsage () {
         '               \t\t    "context": {\n' +
         '               \t\t      "clientContext": null\n' +
         '               \t\t    }.\n' +
-        '               \t\t    "events": {\n' +
-        '               \t\t      "val1": "def"\n' +
-        '               \t\t    }\n' +
+        '               \t\t    "events": [\n' +
+        '               \t\t      {\n' +
+        '               \t\t        "val1": "def"\n' +
+        '               \t\t      }\n' +
+        '               \t\t    ],\n' +
+        '               \t\t    "expect": [\n' +
+        '               \t\t      {\n' +
+        '               \t\t        "match": { "statusCode": 200 }\n' +
+        '               \t\t      }\n' +
+        '               \t\t    ]\n' +
         '               \t\t  }\n' +
         '               \t\t]\n'
     );
 }
+
+function printGenerateEventUsage () {
+
+    console.info(
+        '\n  Usage: node-lambda generate-event <source> [tests_file]' +
+        ' [options]\n' +
+        '\n  source:\t\t' + GdwAwsLambda.EVENT_SOURCES.join(', ') + '\n' +
+        '\n  Options:\n\n' +
+        '    --param <key=value>\tOverride a default value,' +
+        ' for example bucket=my-bucket\n' +
+        '    --append\t\tAdd the event as a new test to the tests file\n' +
+        '    --name <name>\tName of the new test\n'
+    );
+}
@@ -0,0 +1,877 @@
+// Node JS dependencies
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+// Local dependencies
+import {ArchiveError} from './errors';
+import Util from './util';
+import {PackageConfig} from './types';
+
+interface ArchiveEntry {
+    readonly name: string,
+    readonly data: Buffer,
+    readonly executable: boolean
+}
+
+export default class Archive {
+
+    private static readonly DIR_NODE_MODULES = 'node_modules';
+    private static readonly FILE_PACKAGE = 'package.json';
+
+    private static readonly IGNORED_DIRECTORIES = [
+        '.git',
+        '.idea',
+        Archive.DIR_NODE_MODULES
+    ];
+
+    private static readonly LOCK_FILES = [
+        'package-lock.json',
+        'npm-shrinkwrap.json'
+    ];
+
+    // 1980-01-01 00:00:00, the earliest date a zip entry can hold
+    private static readonly DOS_TIME = 0;
+    private static readonly DOS_DATE = (1 << 5) | 1;
+
+    private static readonly MODE_FILE = 0o100644;
+    private static readonly MODE_EXECUTABLE = 0o100755;
+
+    // npm install can print a lot, the default of 200 KB fails the install
+    private static readonly NPM_MAX_BUFFER = 64 * 1024 * 1024;
+
+    private static crcTable: Array<number>;
+
+    /**
+     * Builds a deterministic zip archive of the files in a directory
+     *
+     * @param {string} baseDir
+     * @param {PackageConfig} config
+     * @param {Array.<string>} [ignore] Relative paths that are never included
+     * @returns {Promise.<Buffer>}
+     */
+    static create (
+        baseDir: string,
+        config: PackageConfig,
+        ignore?: Array<string>
+    ): Promise<Buffer> {
+
+        return Promise.all([
+            Archive.collectSources(baseDir, config, ignore || []),
+            Archive.collectModules(baseDir, config)
+        ])
+            .then((results) => {
+
+                let entries = results[0].concat(results[1]);
+
+                entries.sort((a, b) => {
+
+                    return a.name < b.name ? -1
+                        : a.name > b.name ? 1 : 0;
+
+                });
+
+                return Archive.zip(entries);
+
+            });
+
+    }
+
+    //region Sources
+
+    private static collectSources (
+        baseDir: string,
+        config: PackageConfig,
+        ignore: Array<string>
+    ): Promise<Array<ArchiveEntry>> {
+
+        let include = config.include.map(Archive.globToRegExp);
+        let exclude = (config.exclude || []).map(Archive.globToRegExp);
+
+        return Archive.listFiles(baseDir, '', Archive.IGNORED_DIRECTORIES)
+            .then((files) => {
+
+                let selected = files.filter((file) => {
+
+                    return (
+                        ignore.indexOf(file) === -1 &&
+                        Archive.matches(file, include) &&
+                        !Archive.matches(file, exclude)
+                    );
+
+                });
+
+                return Archive.readEntries(baseDir, selected);
+
+            });
+
+    }
+
+    /**
+     * Checks whether a path or any of its parent directories matches
+     *
+     * @param {string} file
+     * @param {Array.<RegExp>} patterns
+     * @returns {boolean}
+     */
+    private static matches (file: string, patterns: Array<RegExp>): boolean {
+
+        let parts = file.split('/');
+
+        let i, j;
+        for (i = parts.length; i > 0; i--) {
+
+            let candidate = parts.slice(0, i).join('/');
+
+            for (j = 0; j < patterns.length; j++) {
+
+                if (patterns[j].test(candidate)) return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Converts a glob pattern to a regular expression.
+     * Supports `**`, `*` and `?`.
+     *
+     * @param {string} glob
+     * @returns {RegExp}
+     */
+    private static globToRegExp (glob: string): RegExp {
+
+        let pattern = glob.replace(/\\/g, '/').replace(/^\.\//, '');
+        let source = '';
+
+        let i = 0;
+        while (i < pattern.length) {
+
+            let char = pattern.charAt(i);
+
+            if (char === '*' && pattern.charAt(i + 1) === '*') {
+
+                if (pattern.charAt(i + 2) === '/') {
+
+                    source += '(?:.*/)?';
+                    i += 3;
+
+                } else {
+
+                    source += '.*';
+                    i += 2;
+
+                }
+
+            } else if (char === '*') {
+
+                source += '[^/]*';
+                i++;
+
+            } else if (char === '?') {
+
+                source += '[^/]';
+                i++;
+
+            } else {
+
+                source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+                i++;
+
+            }
+        }
+
+        return new RegExp('^' + source + '$');
+    }
+
+    //endregion
+
+    //region Production node modules
+
+    private static collectModules (
+        baseDir: string,
+        config: PackageConfig
+    ): Promise<Array<ArchiveEntry>> {
+
+        switch (config.nodeModules) {
+            case 'none':
+
+                return Promise.resolve([]);
+
+            case 'install':
+
+                return Archive.installModules(baseDir);
+
+            default:
+
+                return Archive.copyModules(baseDir);
+        }
+
+    }
+
+    /**
+     * Collects the production dependencies, as listed in package.json,
+     * from the node_modules folder that is already installed
+     *
+     * @param {string} baseDir
+     * @returns {Promise.<Array.<ArchiveEntry>>}
+     */
+    private static copyModules (
+        baseDir: string
+    ): Promise<Array<ArchiveEntry>> {
+
+        let modules: Array<string> = [];
+
+        return Archive.readPackage(baseDir)
+            .then((pkg) => {
+
+                if (!pkg) return [];
+
+                return Archive.resolveModules(baseDir, '', pkg, modules);
+
+            })
+            .then(() => {
+
+                modules.sort();
+
+                return Promise.all(modules.map((module) => {
+
+                    return Archive.listFiles(
+                        path.join(baseDir, module),
+                        module,
+                        [Archive.DIR_NODE_MODULES]
+                    );
+
+                }));
+
+            })
+            .then((results) => {
+
+                let files: Array<string> = [];
+
+                results.forEach((result) => {
+
+                    files = files.concat(result);
+
+                });
+
+                return Archive.readEntries(baseDir, files);
+
+            });
+
+    }
+
+    /**
+     * Installs the production dependencies in a temporary directory
+     * and collects them from there
+     *
+     * @param {string} baseDir
+     * @returns {Promise.<Array.<ArchiveEntry>>}
+     */
+    private static installModules (
+        baseDir: string
+    ): Promise<Array<ArchiveEntry>> {
+
+        let tmpDir: string;
+
+        return new Promise<string>((resolve, reject) => {
+
+            fs.mkdtemp(path.join(os.tmpdir(), 'gald-'), (err, dir) => {
+
+                err ? reject(new ArchiveError(
+                    'Failed to create temporary directory',
+                    {cause: err}
+                ))
+                    : resolve(dir);
+
+            });
+
+        })
+            .then((dir) => {
+
+                tmpDir = dir;
+
+                let files = [Archive.FILE_PACKAGE]
+                    .concat(Archive.LOCK_FILES);
+
+                return Promise.all(files.map((file) => {
+
+                    return Archive.copyFile(
+                        path.join(baseDir, file),
+                        path.join(tmpDir, file)
+                    );
+
+                }));
+
+            })
+            .then(() => {
+
+                return Archive.npmInstall(tmpDir);
+
+            })
+            .then(() => {
+
+                return Archive.copyModules(tmpDir);
+
+            })
+            .then(
+                (entries) => {
+
+                    return Archive.removeDirectory(tmpDir)
+                        .then(() => {
+
+                            return entries;
+
+                        });
+
+                },
+                (error) => {
+
+                    if (!tmpDir) throw error;
+
+                    return Archive.removeDirectory(tmpDir)
+                        .then(() => {
+
+                            throw error;
+
+                        });
+
+                }
+            );
+
+    }
+
+    /**
+     * Resolves dependencies the way Node.js does and collects the
+     * directory of every package that is needed at runtime
+     *
+     * @param {string} baseDir
+     * @param {string} fromDir Directory of the dependent package
+     * @param {Object} pkg Contents of the dependent package.json
+     * @param {Array.<string>} modules Collected package directories
+     * @returns {Promise}
+     */
+    private static resolveModules (
+        baseDir: string,
+        fromDir: string,
+        pkg: any,
+        modules: Array<string>
+    ): Promise<any> {
+
+        let dependencies = Util.isObject(pkg.dependencies) ?
+            Object.keys(pkg.dependencies) : [];
+        let optional = Util.isObject(pkg.optionalDependencies) ?
+            Object.keys(pkg.optionalDependencies) : [];
+
+        return Promise.all(dependencies.concat(optional).map((dependency) => {
+
+            let module = Archive.findModule(baseDir, fromDir, dependency);
+
+            if (module === null) {
+
+                if (optional.indexOf(dependency) !== -1) {
+
+                    return Promise.resolve();
+                }
+
+                return Promise.reject(new ArchiveError(
+                    `Dependency ${dependency} not installed,` +
+                    ' run npm install first',
+                    {field: 'package.nodeModules'}
+                ));
+
+            }
+
+            let moduleDir = module;
+
+            if (modules.indexOf(moduleDir) !== -1) return Promise.resolve();
+
+            modules.push(moduleDir);
+
+            return Archive.readPackage(path.join(baseDir, moduleDir))
+                .then((pkg) => {
+
+                    if (!pkg) return;
+
+                    return Archive.resolveModules(
+                        baseDir,
+                        moduleDir,
+                        pkg,
+                        modules
+                    );
+
+                });
+
+        }));
+
+    }
+
+    private static findModule (
+        baseDir: string,
+        fromDir: string,
+        name: string
+    ): string | null {
+
+        let dir = fromDir;
+
+        while (true) {
+
+            let candidate = (dir ? dir + '/' : '') +
+                Archive.DIR_NODE_MODULES + '/' + name;
+
+            if (fs.existsSync(path.join(baseDir, candidate))) {
+
+                return candidate;
+            }
+
+            if (!dir) return null;
+
+            // Move up past the enclosing node_modules folder
+            let index = dir.lastIndexOf('/' + Archive.DIR_NODE_MODULES + '/');
+
+            dir = index === -1 ? '' : dir.substring(0, index);
+        }
+    }
+
+    //endregion
+
+    //region Zip
+
+    /**
+     * Creates a zip file. Every entry gets the same timestamp
+     * so identical input always results in an identical archive.
+     *
+     * @param {Array.<ArchiveEntry>} entries
+     * @returns {Buffer}
+     */
+    private static zip (entries: Array<ArchiveEntry>): Buffer {
+
+        if (entries.length > 0xffff) {
+
+            throw new ArchiveError('Too many files for archive', {
+                field: 'package.include'
+            });
+        }
+
+        let localParts: Array<Buffer> = [];
+        let centralParts: Array<Buffer> = [];
+        let offset = 0;
+
+        entries.forEach((entry) => {
+
+            let name = Buffer.from(entry.name, 'utf8');
+            let crc = Archive.crc32(entry.data);
+            let compressed = zlib.deflateRawSync(entry.data, {level: 9});
+
+            let local = Buffer.alloc(30);
+
+            local.writeUInt32LE(0x04034b50, 0);
+            local.writeUInt16LE(20, 4);
+            local.writeUInt16LE(0x0800, 6);
+            local.writeUInt16LE(8, 8);
+            local.writeUInt16LE(Archive.DOS_TIME, 10);
+            local.writeUInt16LE(Archive.DOS_DATE, 12);
+            local.writeUInt32LE(crc, 14);
+            local.writeUInt32LE(compressed.length, 18);
+            local.writeUInt32LE(entry.data.length, 22);
+            local.writeUInt16LE(name.length, 26);
+            local.writeUInt16LE(0, 28);
+
+            let central = Buffer.alloc(46);
+
+            central.writeUInt32LE(0x02014b50, 0);
+            central.writeUInt16LE((3 << 8) | 20, 4);
+            central.writeUInt16LE(20, 6);
+            central.writeUInt16LE(0x0800, 8);
+            central.writeUInt16LE(8, 10);
+            central.writeUInt16LE(Archive.DOS_TIME, 12);
+            central.writeUInt16LE(Archive.DOS_DATE, 14);
+            central.writeUInt32LE(crc, 16);
+            central.writeUInt32LE(compressed.length, 20);
+            central.writeUInt32LE(entry.data.length, 24);
+            central.writeUInt16LE(name.length, 28);
+            central.writeUInt16LE(0, 30);
+            central.writeUInt16LE(0, 32);
+            central.writeUInt16LE(0, 34);
+            central.writeUInt16LE(0, 36);
+            central.writeUInt32LE(
+                ((entry.executable ? Archive.MODE_EXECUTABLE
+                    : Archive.MODE_FILE) << 16) >>> 0,
+                38
+            );
+            central.writeUInt32LE(offset, 42);
+
+            localParts.push(local, name, compressed);
+            centralParts.push(central, name);
+
+            offset += local.length + name.length + compressed.length;
+
+        });
+
+        let centralDirectory = Buffer.concat(centralParts);
+        let end = Buffer.alloc(22);
+
+        end.writeUInt32LE(0x06054b50, 0);
+        end.writeUInt16LE(0, 4);
+        end.writeUInt16LE(0, 6);
+        end.writeUInt16LE(entries.length, 8);
+        end.writeUInt16LE(entries.length, 10);
+        end.writeUInt32LE(centralDirectory.length, 12);
+        end.writeUInt32LE(offset, 16);
+        end.writeUInt16LE(0, 20);
+
+        return Buffer.concat(localParts.concat([centralDirectory, end]));
+    }
+
+    private static crc32 (data: Buffer): number {
+
+        if (!Archive.crcTable) {
+
+            Archive.crcTable = [];
+
+            let n, k;
+            for (n = 0; n < 256; n++) {
+
+                let c = n;
+
+                for (k = 0; k < 8; k++) {
+
+                    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+                }
+
+                Archive.crcTable.push(c >>> 0);
+            }
+        }
+
+        let crc = 0xffffffff;
+
+        let i, length;
+
+        length = data.length;
+        for (i = 0; i < length; i++) {
+
+            crc = Archive.crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+        }
+
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+
+    //endregion
+
+    //region File methods
+
+    /**
+     * Lists all files in a directory recursively
+     *
+     * @param {string} dir
+     * @param {string} prefix Relative path used for the results
+     * @param {Array.<string>} ignoredDirectories
+     * @returns {Promise.<Array.<string>>}
+     */
+    private static listFiles (
+        dir: string,
+        prefix: string,
+        ignoredDirectories: Array<string>
+    ): Promise<Array<string>> {
+
+        return new Promise<Array<string>>((resolve, reject) => {
+
+            fs.readdir(dir, (err, names) => {
+
+                err ? reject(new ArchiveError(
+                    `Failed to read directory ${dir}`,
+                    {file: dir, cause: err}
+                ))
+                    : resolve(names);
+
+            });
+
+        })
+            .then((names) => {
+
+                return Promise.all(names.map((name) => {
+
+                    let file = path.join(dir, name);
+                    let relative = prefix ? prefix + '/' + name : name;
+
+                    return Archive.stat(file)
+                        .then((stats) => {
+
+                            if (stats.isDirectory()) {
+
+                                if (ignoredDirectories.indexOf(name) !== -1) {
+
+                                    return Promise.resolve([]);
+                                }
+
+                                return Archive.listFiles(
+                                    file,
+                                    relative,
+                                    ignoredDirectories
+                                );
+
+                            }
+
+                            return Promise.resolve(
+                                stats.isFile() ? [relative] : []
+                            );
+
+                        });
+
+                }));
+
+            })
+            .then((results) => {
+
+                let files: Array<string> = [];
+
+                results.forEach((result) => {
+
+                    files = files.concat(result);
+
+                });
+
+                return files;
+
+            });
+
+    }
+
+    private static readEntries (
+        baseDir: string,
+        files: Array<string>
+    ): Promise<Array<ArchiveEntry>> {
+
+        return Promise.all(files.map((file) => {
+
+            let filePath = path.join(baseDir, file);
+
+            return Promise.all([
+                Archive.stat(filePath),
+                new Promise<Buffer>((resolve, reject) => {
+
+                    fs.readFile(filePath, (err, data) => {
+
+                        err ? reject(new ArchiveError(
+                            `Failed to read file ${filePath}`,
+                            {file: filePath, cause: err}
+                        ))
+                            : resolve(data);
+
+                    });
+
+                })
+            ])
+                .then((results): ArchiveEntry => {
+
+                    return {
+                        name: file,
+                        data: results[1],
+                        executable: (results[0].mode & 0o111) !== 0
+                    };
+
+                });
+
+        }));
+
+    }
+
+    private static readPackage (dir: string): Promise<any> {
+
+        return new Promise((resolve) => {
+
+            fs.readFile(
+                path.join(dir, Archive.FILE_PACKAGE),
+                'utf8',
+                (err, data) => {
+
+                    let pkg = null;
+
+                    if (!err) {
+
+                        try {
+
+                            pkg = JSON.parse(data);
+
+                        } catch (e) {
+
+                            pkg = null;
+                        }
+                    }
+
+                    resolve(pkg);
+
+                }
+            );
+
+        });
+
+    }
+
+    private static stat (file: string): Promise<fs.Stats> {
+
+        return new Promise((resolve, reject) => {
+
+            fs.stat(file, (err, stats) => {
+
+                err ? reject(new ArchiveError(
+                    `Failed to read file ${file}`,
+                    {file: file, cause: err}
+                ))
+                    : resolve(stats);
+
+            });
+
+        });
+
+    }
+
+    /**
+     * Copies a file, a missing source file is skipped
+     *
+     * @param {string} source
+     * @param {string} target
+     * @returns {Promise}
+     */
+    private static copyFile (source: string, target: string): Promise<any> {
+
+        return new Promise((resolve, reject) => {
+
+            fs.readFile(source, (err, data) => {
+
+                if (err) {
+
+                    resolve();
+
+                } else {
+
+                    fs.writeFile(target, data, (err) => {
+
+                        err ? reject(new ArchiveError(
+                            `Failed to write file ${target}`,
+                            {file: target, cause: err}
+                        ))
+                            : resolve();
+
+                    });
+
+                }
+
+            });
+
+        });
+
+    }
+
+    private static removeDirectory (dir: string): Promise<any> {
+
+        return new Promise<Array<string>>((resolve, reject) => {
+
+            fs.readdir(dir, (err, names) => {
+
+                err ? reject(new ArchiveError(
+                    `Failed to read directory ${dir}`,
+                    {file: dir, cause: err}
+                ))
+                    : resolve(names);
+
+            });
+
+        })
+            .then((names) => {
+
+                return Promise.all(names.map((name) => {
+
+                    let file = path.join(dir, name);
+
+                    return new Promise<fs.Stats>((resolve, reject) => {
+
+                        fs.lstat(file, (err, stats) => {
+
+                            err ? reject(new ArchiveError(
+                                `Failed to read file ${file}`,
+                                {file: file, cause: err}
+                            ))
+                                : resolve(stats);
+
+                        });
+
+                    })
+                        .then((stats) => {
+
+                            if (stats.isDirectory()) {
+
+                                return Archive.removeDirectory(file);
+                            }
+
+                            return new Promise((resolve, reject) => {
+
+                                fs.unlink(file, (err) => {
+
+                                    err ? reject(new ArchiveError(
+                                        `Failed to remove ${file}`,
+                                        {file: file, cause: err}
+                                    ))
+                                        : resolve();
+
+                                });
+
+                            });
+
+                        });
+
+                }));
+
+            })
+            .then(() => {
+
+                return new Promise((resolve, reject) => {
+
+                    fs.rmdir(dir, (err) => {
+
+                        err ? reject(new ArchiveError(
+                            `Failed to remove ${dir}`,
+                            {file: dir, cause: err}
+                        ))
+                            : resolve();
+
+                    });
+
+                });
+
+            });
+
+    }
+
+    private static npmInstall (dir: string): Promise<any> {
+
+        let npm = process.platform === 'win32' ? 'npm.cmd' : 'npm';
+
+        return new Promise((resolve, reject) => {
+
+            childProcess.execFile(
+                npm,
+                ['install', '--production'],
+                {cwd: dir, maxBuffer: Archive.NPM_MAX_BUFFER},
+                (err, stdout, stderr) => {
+
+                    let output = String(stderr).trim();
+
+                    err ? reject(new ArchiveError(
+                        'Failed to install production dependencies' +
+                        (output ? ':' + os.EOL + output : ''),
+                        {cause: err}
+                    ))
+                        : resolve();
+
+                }
+            );
+
+        });
+
+    }
+
+    //endregion
+}
@@ -0,0 +1,295 @@
+// Local dependencies
+import Util from './util';
+import {LambdaExpectation} from './types';
+
+export default class Assert {
+
+    /**
+     * Checks the outcome of an invocation against an expectation.
+     * Without an expectation any error is a failure.
+     *
+     * @param {LambdaExpectation} expectation
+     * @param {*} error
+     * @param {*} result
+     * @returns {Array.<string>} Failure messages, empty when passed
+     */
+    static check (
+        expectation: LambdaExpectation | null | undefined,
+        error: any,
+        result: any
+    ): Array<string> {
+
+        let failures: Array<string> = [];
+        let hasError = error !== undefined && error !== null;
+
+        if (expectation &&
+            expectation.error !== undefined &&
+            expectation.error !== false) {
+
+            if (!hasError) {
+
+                failures.push('error: expected an error, received result ' +
+                    Assert.stringify(result));
+
+            } else if (typeof expectation.error === 'string' &&
+                Assert.getMessage(error) !== expectation.error) {
+
+                failures.push('error: expected ' +
+                    Assert.stringify(expectation.error) + ', received ' +
+                    Assert.stringify(Assert.getMessage(error)));
+
+            }
+
+            return failures;
+        }
+
+        if (hasError) {
+
+            failures.push('error: unexpected error ' +
+                Assert.stringify(Assert.getMessage(error)));
+
+            return failures;
+        }
+
+        if (!expectation) return failures;
+
+        if (expectation.hasOwnProperty('result')) {
+
+            Assert.diff('result', expectation.result, result, false, failures);
+
+        }
+
+        if (expectation.match !== undefined) {
+
+            Assert.diff('result', expectation.match, result, true, failures);
+
+        }
+
+        if (Util.isObject(expectation.paths)) {
+
+            let paths = expectation.paths;
+
+            Object.keys(paths).forEach((jsonPath) => {
+
+                let found = Assert.getPath(result, jsonPath);
+
+                if (found.exists) {
+
+                    Assert.diff(
+                        jsonPath,
+                        paths[jsonPath],
+                        found.value,
+                        false,
+                        failures
+                    );
+
+                } else {
+
+                    failures.push(jsonPath + ': expected ' +
+                        Assert.stringify(paths[jsonPath]) +
+                        ', path not found');
+
+                }
+
+            });
+
+        }
+
+        return failures;
+    }
+
+    /**
+     * Extracts a readable message from an error
+     *
+     * @param {*} error
+     * @returns {string}
+     */
+    static getMessage (error: any): string {
+
+        if (error instanceof Error) {
+
+            return error.message;
+
+        } else if (typeof error === 'string') {
+
+            return error;
+
+        } else if (Util.isObject(error) &&
+            typeof (<any> error).errorMessage === 'string') {
+
+            return (<any> error).errorMessage;
+
+        }
+
+        return Assert.stringify(error);
+    }
+
+    /**
+     * Compares values and collects every difference.
+     * A partial comparison ignores properties that are not expected.
+     *
+     * @param {string} path
+     * @param {*} expected
+     * @param {*} actual
+     * @param {boolean} partial
+     * @param {Array.<string>} failures
+     */
+    private static diff (
+        path: string,
+        expected: any,
+        actual: any,
+        partial: boolean,
+        failures: Array<string>
+    ): void {
+
+        if (Array.isArray(expected)) {
+
+            if (!Array.isArray(actual)) {
+
+                Assert.pushMismatch(path, expected, actual, failures);
+
+                return;
+            }
+
+            if (!partial && expected.length !== actual.length) {
+
+                failures.push(path + '.length: expected ' + expected.length +
+                    ', received ' + actual.length);
+
+            }
+
+            expected.forEach((value, index) => {
+
+                if (index < actual.length) {
+
+                    Assert.diff(
+                        path + '[' + index + ']',
+                        value,
+                        actual[index],
+                        partial,
+                        failures
+                    );
+
+                } else if (partial) {
+
+                    failures.push(path + '[' + index + ']: expected ' +
+                        Assert.stringify(value) + ', missing');
+
+                }
+
+            });
+
+        } else if (Util.isPlainObject(expected)) {
+
+            if (!Util.isPlainObject(actual)) {
+
+                Assert.pushMismatch(path, expected, actual, failures);
+
+                return;
+            }
+
+            Object.keys(expected).forEach((key) => {
+
+                if (actual.hasOwnProperty(key)) {
+
+                    Assert.diff(
+                        path + '.' + key,
+                        expected[key],
+                        actual[key],
+                        partial,
+                        failures
+                    );
+
+                } else {
+
+                    failures.push(path + '.' + key + ': expected ' +
+                        Assert.stringify(expected[key]) + ', missing');
+
+                }
+
+            });
+
+            if (!partial) {
+
+                Object.keys(actual).forEach((key) => {
+
+                    if (!expected.hasOwnProperty(key) &&
+                        actual[key] !== undefined) {
+
+                        failures.push(path + '.' + key +
+                            ': unexpected, received ' +
+                            Assert.stringify(actual[key]));
+
+                    }
+
+                });
+
+            }
+
+        } else if (expected !== actual) {
+
+            Assert.pushMismatch(path, expected, actual, failures);
+
+        }
+
+    }
+
+    private static pushMismatch (
+        path: string,
+        expected: any,
+        actual: any,
+        failures: Array<string>
+    ): void {
+
+        failures.push(path + ': expected ' + Assert.stringify(expected) +
+            ', received ' + Assert.stringify(actual));
+
+    }
+
+    /**
+     * Looks up a value by a path like `$.body.items[0].id`
+     *
+     * @param {*} obj
+     * @param {string} jsonPath
+     * @returns {{exists: boolean, value: *}}
+     */
+    private static getPath (
+        obj: any,
+        jsonPath: string
+    ): {exists: boolean, value?: any} {
+
+        let tokens = jsonPath.replace(/^\$\.?/, '')
+            .match(/[^.[\]]+/g) || [];
+        let value = obj;
+
+        let i, length;
+
+        length = tokens.length;
+        for (i = 0; i < length; i++) {
+
+            if (!Util.isObject(value) ||
+                !value.hasOwnProperty(tokens[i])) {
+
+                return {exists: false};
+            }
+
+            value = (<any> value)[tokens[i]];
+        }
+
+        return {exists: true, value: value};
+    }
+
+    private static stringify (value: any): string {
+
+        if (value === undefined) return 'undefined';
+
+        try {
+
+            return JSON.stringify(value);
+
+        } catch (e) {
+
+            return String(value);
+        }
+    }
+}
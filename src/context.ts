@@ -0,0 +1,80 @@
+// Node JS dependencies
+import * as crypto from 'crypto';
+
+// Local dependencies
+import Util from './util';
+import {LambdaConfig} from './types';
+
+/**
+ * Local stand-in for the context object AWS Lambda passes to a handler
+ */
+export default class LambdaContext {
+
+    public callbackWaitsForEmptyEventLoop = true;
+
+    public readonly functionName: string;
+    public readonly functionVersion = '$LATEST';
+    public readonly invokedFunctionArn: string;
+    public readonly memoryLimitInMB: string;
+    public readonly awsRequestId: string;
+    public readonly logGroupName: string;
+    public readonly logStreamName: string;
+
+    private readonly deadline: number;
+    private readonly callback: (err: any, data?: any) => void;
+
+    private static readonly DEFAULT_REGION = 'us-east-1';
+    private static readonly DEFAULT_ACCOUNT = '000000000000';
+
+    /**
+     * @param {LambdaConfig} config
+     * @param {number} deadline Time in milliseconds since epoch
+     * @param {Function} callback Called by succeed, fail and done
+     */
+    constructor (
+        config: LambdaConfig,
+        deadline: number,
+        callback: (err: any, data?: any) => void
+    ) {
+
+        let region = process.env.AWS_REGION || LambdaContext.DEFAULT_REGION;
+
+        this.functionName = config.FunctionName;
+        this.invokedFunctionArn = 'arn:aws:lambda:' + region + ':' +
+            LambdaContext.DEFAULT_ACCOUNT + ':function:' + config.FunctionName;
+        this.memoryLimitInMB = String(config.MemorySize);
+        this.awsRequestId = Util.createUuid();
+        this.logGroupName = '/aws/lambda/' + config.FunctionName;
+        this.logStreamName = new Date().toISOString().substring(0, 10)
+            .replace(/-/g, '/') + '/[$LATEST]' +
+            crypto.randomBytes(16).toString('hex');
+
+        this.deadline = deadline;
+        this.callback = callback;
+
+    }
+
+    getRemainingTimeInMillis (): number {
+
+        return Math.max(0, this.deadline - Date.now());
+
+    }
+
+    succeed (result?: any): void {
+
+        this.callback(null, result);
+
+    }
+
+    fail (error: any): void {
+
+        this.callback(error || 'handled');
+
+    }
+
+    done (error?: any, result?: any): void {
+
+        this.callback(error, result);
+
+    }
+}
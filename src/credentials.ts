@@ -0,0 +1,161 @@
+// AWS SDK dependencies
+import {
+    ChainableTemporaryCredentials,
+    Credentials,
+    EnvironmentCredentials,
+    SharedIniFileCredentials
+} from 'aws-sdk';
+
+// Local dependencies
+import {ConfigError} from './errors';
+import Util from './util';
+import {LambdaSecrets, MfaTokenProvider} from './types';
+
+export interface CredentialSource {
+    readonly credentials?: Credentials,
+    readonly description: string
+}
+
+type TokenCodeFn = (
+    serialNumber: string,
+    callback: (err?: Error, token?: string) => void
+) => void;
+
+/**
+ * Picks the credentials of the AWS clients, the first one set wins:
+ * the profile or the keys of the secrets file, the AWS_ACCESS_KEY_ID
+ * and AWS_PROFILE environment variables, then the default chain of the SDK.
+ * With roleArn these credentials assume that role.
+ */
+export default class CredentialChain {
+
+    public static readonly ROLE_SESSION_NAME = 'gald';
+
+    /**
+     * @param {LambdaSecrets} secrets
+     * @param {string} file Secrets file named in errors
+     * @param {MfaTokenProvider} [mfaToken] Asks for the token of mfaSerial
+     *                                     or of an MFA profile
+     * @returns {CredentialSource} Without credentials the SDK
+     *                             looks for them itself
+     */
+    static create (
+        secrets: LambdaSecrets,
+        file: string,
+        mfaToken?: MfaTokenProvider
+    ): CredentialSource {
+
+        let tokenCodeFn: TokenCodeFn | undefined = mfaToken ?
+            (serialNumber, callback) => {
+
+                mfaToken(serialNumber)
+                    .then((token) => callback(undefined, token), callback);
+
+            } : undefined;
+
+        let base = CredentialChain.createBase(secrets, tokenCodeFn);
+        let roleArn = secrets.roleArn;
+        let mfaSerial = secrets.mfaSerial;
+
+        if (!Util.isNEString(roleArn) && !Util.isNEString(mfaSerial)) {
+
+            return base;
+
+        }
+
+        if (Util.isNEString(mfaSerial) && !tokenCodeFn) {
+
+            throw new ConfigError(
+                `An MFA token is required for ${mfaSerial}`,
+                {file: file, field: 'mfaSerial'}
+            );
+
+        }
+
+        // Without a role the MFA token gets a session token
+        let params: any = Util.isNEString(roleArn) ? {
+            RoleArn: roleArn,
+            RoleSessionName: CredentialChain.ROLE_SESSION_NAME
+        } : {};
+
+        if (Util.isNEString(roleArn) && Util.isNEString(secrets.externalId)) {
+
+            params.ExternalId = secrets.externalId;
+
+        }
+
+        if (Util.isNEString(mfaSerial)) params.SerialNumber = mfaSerial;
+
+        return {
+            credentials: new ChainableTemporaryCredentials({
+                params: params,
+                masterCredentials: base.credentials,
+                tokenCodeFn: tokenCodeFn
+            }),
+            description: (Util.isNEString(roleArn) ?
+                `role ${roleArn}` : `MFA session of ${mfaSerial}`) +
+                ' assumed with ' + base.description
+        };
+
+    }
+
+    private static createBase (
+        secrets: LambdaSecrets,
+        tokenCodeFn?: TokenCodeFn
+    ): CredentialSource {
+
+        let env = process.env;
+
+        if (Util.isNEString(secrets.profile)) {
+
+            return {
+                credentials: new SharedIniFileCredentials({
+                    profile: secrets.profile,
+                    tokenCodeFn: tokenCodeFn
+                }),
+                description: `profile ${secrets.profile}`
+            };
+
+        }
+
+        if (Util.isNEString(secrets.accessKeyId) &&
+            Util.isNEString(secrets.secretAccessKey)) {
+
+            return {
+                credentials: new Credentials(
+                    secrets.accessKeyId,
+                    secrets.secretAccessKey
+                ),
+                description: 'keys of the secrets file'
+            };
+
+        }
+
+        if (Util.isNEString(env.AWS_ACCESS_KEY_ID) &&
+            Util.isNEString(env.AWS_SECRET_ACCESS_KEY)) {
+
+            return {
+                credentials: new EnvironmentCredentials('AWS'),
+                description: 'environment variables'
+            };
+
+        }
+
+        if (Util.isNEString(env.AWS_PROFILE)) {
+
+            return {
+                credentials: new SharedIniFileCredentials({
+                    profile: env.AWS_PROFILE,
+                    tokenCodeFn: tokenCodeFn
+                }),
+                description: `profile ${env.AWS_PROFILE}`
+            };
+
+        }
+
+        return {
+            description: 'default credential chain of the AWS SDK'
+        };
+
+    }
+}
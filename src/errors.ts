@@ -0,0 +1,167 @@
+// Local dependencies
+import {ConfigChange, SchemaViolation} from './types';
+
+export interface ErrorDetails {
+    readonly file?: string,
+    readonly field?: string,
+    readonly cause?: any
+}
+
+/**
+ * Base class of the errors the API rejects with,
+ * code is stable and meant for programs, message for people
+ */
+export class GaldError extends Error {
+
+    public static readonly INVALID_OPTION = 'ERR_INVALID_OPTION';
+    public static readonly NOT_FOUND = 'ERR_NOT_FOUND';
+    public static readonly FILE_EXISTS = 'ERR_FILE_EXISTS';
+    public static readonly FILE_WRITE = 'ERR_FILE_WRITE';
+    public static readonly DOWNLOAD = 'ERR_DOWNLOAD';
+    public static readonly HEALTH_CHECK = 'ERR_HEALTH_CHECK';
+    public static readonly SERVER = 'ERR_SERVER';
+    public static readonly FUNCTION_STATE = 'ERR_FUNCTION_STATE';
+
+    public readonly code: string;
+    public readonly file?: string;
+    public readonly field?: string;
+    public readonly cause?: any;
+
+    /**
+     * @param {string} code
+     * @param {string} message
+     * @param {ErrorDetails} [details]
+     */
+    constructor (code: string, message: string, details?: ErrorDetails) {
+
+        super(message);
+
+        this.name = new.target.name;
+        this.code = code;
+
+        if (details) {
+
+            this.file = details.file;
+            this.field = details.field;
+            this.cause = details.cause;
+
+        }
+
+    }
+}
+
+/**
+ * A config file is missing, unreadable or invalid
+ */
+export class ConfigError extends GaldError {
+
+    public static readonly CODE = 'ERR_CONFIG';
+
+    public readonly violations: Array<SchemaViolation>;
+
+    /**
+     * @param {string} message
+     * @param {ErrorDetails} [details]
+     * @param {Array.<SchemaViolation>} [violations] Schema problems
+     */
+    constructor (
+        message: string,
+        details?: ErrorDetails,
+        violations?: Array<SchemaViolation>
+    ) {
+
+        super(ConfigError.CODE, message, details);
+
+        this.violations = violations || [];
+
+    }
+}
+
+/**
+ * The archive cannot be built, read or uploaded
+ */
+export class ArchiveError extends GaldError {
+
+    public static readonly CODE = 'ERR_ARCHIVE';
+
+    constructor (message: string, details?: ErrorDetails) {
+
+        super(ArchiveError.CODE, message, details);
+
+    }
+}
+
+/**
+ * The function does not exist in AWS Lambda
+ */
+export class FunctionNotFoundError extends GaldError {
+
+    public static readonly CODE = 'ERR_FUNCTION_NOT_FOUND';
+
+    public readonly functionName: string;
+
+    constructor (message: string, functionName: string, cause?: any) {
+
+        super(FunctionNotFoundError.CODE, message, {
+            field: 'FunctionName',
+            cause: cause
+        });
+
+        this.functionName = functionName;
+
+    }
+}
+
+/**
+ * The deployed configuration differs from the local one
+ */
+export class ConfigDriftError extends GaldError {
+
+    public static readonly CODE = 'ERR_CONFIG_DRIFT';
+
+    public readonly functionName: string;
+    public readonly changes: Array<ConfigChange>;
+
+    constructor (
+        message: string,
+        functionName: string,
+        changes: Array<ConfigChange>
+    ) {
+
+        super(ConfigDriftError.CODE, message);
+
+        this.functionName = functionName;
+        this.changes = changes;
+
+    }
+}
+
+/**
+ * A request to AWS failed, cause holds the error of the AWS SDK
+ */
+export class AwsApiError extends GaldError {
+
+    public static readonly CODE = 'ERR_AWS_API';
+
+    public readonly operation: string;
+    public readonly awsCode?: string;
+
+    /**
+     * @param {string} operation Name of the AWS SDK method
+     * @param {*} [cause]
+     * @param {string} [message] Defaults to the message of the cause
+     */
+    constructor (operation: string, cause?: any, message?: string) {
+
+        super(
+            AwsApiError.CODE,
+            message || operation + ' failed' +
+                (cause && cause.message ? ': ' + cause.message : ''),
+            {cause: cause}
+        );
+
+        this.operation = operation;
+        this.awsCode = cause && cause.code;
+
+    }
+}
@@ -0,0 +1,370 @@
+// Node JS dependencies
+import * as crypto from 'crypto';
+
+// Local dependencies
+import {GaldError} from './errors';
+import Util from './util';
+import {EventSource} from './types';
+
+/**
+ * Creates example events as AWS services send them to a Lambda function
+ */
+export default class EventGenerator {
+
+    public static readonly SOURCES: Array<EventSource> = [
+        'apigateway',
+        'dynamodb',
+        'kinesis',
+        's3',
+        'schedule',
+        'sns',
+        'sqs'
+    ];
+
+    private static readonly DEFAULT_REGION = 'us-east-1';
+    private static readonly DEFAULT_ACCOUNT = '123456789012';
+
+    /**
+     * @param {EventSource} source
+     * @param {Object.<string, string>} params Overrides for the defaults
+     * @returns {Object}
+     */
+    static generate (
+        source: EventSource,
+        params: {[key: string]: string}
+    ): object {
+
+        let param = (name: string, defaultValue: string): string => {
+
+            return params.hasOwnProperty(name) ? params[name] : defaultValue;
+
+        };
+
+        let region = param('region', EventGenerator.DEFAULT_REGION);
+        let account = param('account', EventGenerator.DEFAULT_ACCOUNT);
+
+        switch (source) {
+            case 'apigateway':
+
+                return EventGenerator.createApiGateway(param, account);
+
+            case 'dynamodb':
+
+                return EventGenerator.createDynamoDb(param, region, account);
+
+            case 'kinesis':
+
+                return EventGenerator.createKinesis(param, region, account);
+
+            case 's3':
+
+                return EventGenerator.createS3(param, region);
+
+            case 'schedule':
+
+                return EventGenerator.createSchedule(param, region, account);
+
+            case 'sns':
+
+                return EventGenerator.createSns(param, region, account);
+
+            case 'sqs':
+
+                return EventGenerator.createSqs(param, region, account);
+
+            default:
+
+                throw new GaldError(
+                    GaldError.INVALID_OPTION,
+                    `Invalid event source ${source}`,
+                    {field: 'source'}
+                );
+        }
+
+    }
+
+    private static createApiGateway (
+        param: (name: string, defaultValue: string) => string,
+        account: string
+    ): object {
+
+        let method = param('method', 'GET').toUpperCase();
+        let path = param('path', '/');
+        let body = param('body', '');
+
+        return {
+            resource: '/{proxy+}',
+            path: path,
+            httpMethod: method,
+            headers: {
+                'Accept': '*/*',
+                'Content-Type': 'application/json',
+                'Host': 'example.execute-api.amazonaws.com',
+                'User-Agent': 'gald'
+            },
+            multiValueHeaders: {
+                'Accept': ['*/*'],
+                'Content-Type': ['application/json'],
+                'Host': ['example.execute-api.amazonaws.com'],
+                'User-Agent': ['gald']
+            },
+            queryStringParameters: null,
+            multiValueQueryStringParameters: null,
+            pathParameters: {
+                proxy: path.replace(/^\//, '')
+            },
+            stageVariables: null,
+            requestContext: {
+                accountId: account,
+                resourceId: 'abc123',
+                stage: param('stage', 'prod'),
+                requestId: Util.createUuid(),
+                identity: {
+                    sourceIp: '127.0.0.1',
+                    userAgent: 'gald'
+                },
+                resourcePath: '/{proxy+}',
+                httpMethod: method,
+                path: path,
+                protocol: 'HTTP/1.1',
+                requestTimeEpoch: Date.now()
+            },
+            body: body.length > 0 ? body : null,
+            isBase64Encoded: false
+        };
+    }
+
+    private static createDynamoDb (
+        param: (name: string, defaultValue: string) => string,
+        region: string,
+        account: string
+    ): object {
+
+        let table = param('table', 'example-table');
+        let eventName = param('eventName', 'INSERT').toUpperCase();
+        let keys = {
+            id: {
+                S: param('id', '1')
+            }
+        };
+        let image = {
+            id: keys.id,
+            message: {
+                S: param('message', 'New item')
+            }
+        };
+
+        let record: any = {
+            eventID: crypto.randomBytes(16).toString('hex'),
+            eventName: eventName,
+            eventVersion: '1.1',
+            eventSource: 'aws:dynamodb',
+            awsRegion: region,
+            dynamodb: {
+                ApproximateCreationDateTime: Math.floor(Date.now() / 1000),
+                Keys: keys,
+                SequenceNumber: EventGenerator.createSequenceNumber(),
+                SizeBytes: 26,
+                StreamViewType: 'NEW_AND_OLD_IMAGES'
+            },
+            eventSourceARN: 'arn:aws:dynamodb:' + region + ':' + account +
+                ':table/' + table + '/stream/' +
+                new Date().toISOString().replace(/Z$/, '')
+        };
+
+        if (eventName !== 'REMOVE') record.dynamodb.NewImage = image;
+        if (eventName !== 'INSERT') record.dynamodb.OldImage = image;
+
+        return {
+            Records: [record]
+        };
+    }
+
+    private static createKinesis (
+        param: (name: string, defaultValue: string) => string,
+        region: string,
+        account: string
+    ): object {
+
+        let stream = param('stream', 'example-stream');
+        let sequenceNumber = EventGenerator.createSequenceNumber();
+
+        return {
+            Records: [
+                {
+                    kinesis: {
+                        kinesisSchemaVersion: '1.0',
+                        partitionKey: param('partitionKey', '1'),
+                        sequenceNumber: sequenceNumber,
+                        data: Buffer.from(param('data', 'Hello, world!'))
+                            .toString('base64'),
+                        approximateArrivalTimestamp: Date.now() / 1000
+                    },
+                    eventSource: 'aws:kinesis',
+                    eventVersion: '1.0',
+                    eventID: 'shardId-000000000000:' + sequenceNumber,
+                    eventName: 'aws:kinesis:record',
+                    invokeIdentityArn: 'arn:aws:iam::' + account +
+                        ':role/lambda-role',
+                    awsRegion: region,
+                    eventSourceARN: 'arn:aws:kinesis:' + region + ':' +
+                        account + ':stream/' + stream
+                }
+            ]
+        };
+    }
+
+    private static createS3 (
+        param: (name: string, defaultValue: string) => string,
+        region: string
+    ): object {
+
+        let bucket = param('bucket', 'example-bucket');
+
+        return {
+            Records: [
+                {
+                    eventVersion: '2.1',
+                    eventSource: 'aws:s3',
+                    awsRegion: region,
+                    eventTime: new Date().toISOString(),
+                    eventName: param('eventName', 'ObjectCreated:Put'),
+                    userIdentity: {
+                        principalId: 'EXAMPLE'
+                    },
+                    requestParameters: {
+                        sourceIPAddress: '127.0.0.1'
+                    },
+                    responseElements: {
+                        'x-amz-request-id': crypto.randomBytes(8)
+                            .toString('hex').toUpperCase(),
+                        'x-amz-id-2': crypto.randomBytes(32)
+                            .toString('base64')
+                    },
+                    s3: {
+                        s3SchemaVersion: '1.0',
+                        configurationId: 'gald',
+                        bucket: {
+                            name: bucket,
+                            ownerIdentity: {
+                                principalId: 'EXAMPLE'
+                            },
+                            arn: 'arn:aws:s3:::' + bucket
+                        },
+                        object: {
+                            key: param('key', 'example/key.txt'),
+                            size: parseInt(param('size', '1024'), 10),
+                            eTag: crypto.randomBytes(16).toString('hex'),
+                            sequencer: crypto.randomBytes(8)
+                                .toString('hex').toUpperCase()
+                        }
+                    }
+                }
+            ]
+        };
+    }
+
+    private static createSchedule (
+        param: (name: string, defaultValue: string) => string,
+        region: string,
+        account: string
+    ): object {
+
+        return {
+            'version': '0',
+            'id': Util.createUuid(),
+            'detail-type': 'Scheduled Event',
+            'source': 'aws.events',
+            'account': account,
+            'time': new Date().toISOString().replace(/\.\d+Z$/, 'Z'),
+            'region': region,
+            'resources': [
+                'arn:aws:events:' + region + ':' + account + ':rule/' +
+                param('rule', 'example-rule')
+            ],
+            'detail': {}
+        };
+    }
+
+    private static createSns (
+        param: (name: string, defaultValue: string) => string,
+        region: string,
+        account: string
+    ): object {
+
+        let topicArn = 'arn:aws:sns:' + region + ':' + account + ':' +
+            param('topic', 'example-topic');
+
+        return {
+            Records: [
+                {
+                    EventSource: 'aws:sns',
+                    EventVersion: '1.0',
+                    EventSubscriptionArn: topicArn + ':' +
+                        Util.createUuid(),
+                    Sns: {
+                        Type: 'Notification',
+                        MessageId: Util.createUuid(),
+                        TopicArn: topicArn,
+                        Subject: param('subject', 'Example subject'),
+                        Message: param('message', 'Example message'),
+                        Timestamp: new Date().toISOString(),
+                        SignatureVersion: '1',
+                        Signature: 'EXAMPLE',
+                        SigningCertUrl: 'https://sns.' + region +
+                            '.amazonaws.com/SimpleNotificationService.pem',
+                        UnsubscribeUrl: 'https://sns.' + region +
+                            '.amazonaws.com/?Action=Unsubscribe',
+                        MessageAttributes: {}
+                    }
+                }
+            ]
+        };
+    }
+
+    private static createSqs (
+        param: (name: string, defaultValue: string) => string,
+        region: string,
+        account: string
+    ): object {
+
+        let body = param('body', 'Example message');
+        let now = String(Date.now());
+
+        return {
+            Records: [
+                {
+                    messageId: Util.createUuid(),
+                    receiptHandle: crypto.randomBytes(32).toString('base64'),
+                    body: body,
+                    attributes: {
+                        ApproximateReceiveCount: '1',
+                        SentTimestamp: now,
+                        SenderId: account,
+                        ApproximateFirstReceiveTimestamp: now
+                    },
+                    messageAttributes: {},
+                    md5OfBody: crypto.createHash('md5').update(body)
+                        .digest('hex'),
+                    eventSource: 'aws:sqs',
+                    eventSourceARN: 'arn:aws:sqs:' + region + ':' + account +
+                        ':' + param('queue', 'example-queue'),
+                    awsRegion: region
+                }
+            ]
+        };
+    }
+
+    private static createSequenceNumber (): string {
+
+        let digits = '';
+
+        while (digits.length < 56) {
+
+            digits += String(crypto.randomBytes(4).readUInt32LE(0));
+        }
+
+        return '4' + digits.substring(0, 55);
+
+    }
+}
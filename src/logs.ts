@@ -0,0 +1,283 @@
+// AWS SDK dependencies
+import CloudWatchLogs = require('aws-sdk/clients/cloudwatchlogs');
+
+// Local dependencies
+import {AwsApiError, GaldError} from './errors';
+import Util from './util';
+import {LogEvent, LogReport, LogsOptions} from './types';
+
+export interface LogSource {
+    readonly logs: CloudWatchLogs,
+    readonly logGroupName: string
+}
+
+/**
+ * Reads the log events of a Lambda function, merged from all log streams
+ * and ordered by time, as an async iterator
+ */
+export default class LogStream implements AsyncIterableIterator<LogEvent> {
+
+    public static readonly DEFAULT_SINCE = '10m';
+    public static readonly DEFAULT_INTERVAL = 2000;
+
+    private static readonly REGEX_SINCE = /^(\d+)([smhd])$/;
+    private static readonly REGEX_REPORT = /^REPORT RequestId: (\S+)/;
+    private static readonly UNITS: {[unit: string]: number} = {
+        s: 1000,
+        m: 60 * 1000,
+        h: 60 * 60 * 1000,
+        d: 24 * 60 * 60 * 1000
+    };
+
+    private readonly open: () => Promise<LogSource>;
+    private readonly options: LogsOptions;
+
+    private source: LogSource;
+    private events: Array<LogEvent> = [];
+    private startTime: number;
+    private nextToken: string | undefined;
+
+    // A poll starts at the latest timestamp and returns its events again
+    private latest = 0;
+    private seen: Array<string> = [];
+
+    private polling = false;
+    private finished = false;
+
+    /**
+     * @param {Function} open Resolves the client and the log group once
+     *                        the first event is requested
+     * @param {LogsOptions} options
+     */
+    constructor (open: () => Promise<LogSource>, options: LogsOptions) {
+
+        this.open = open;
+        this.options = options;
+
+    }
+
+    [Symbol.asyncIterator] (): AsyncIterableIterator<LogEvent> {
+
+        return this;
+
+    }
+
+    next (): Promise<IteratorResult<LogEvent>> {
+
+        if (this.events.length > 0) {
+
+            return Promise.resolve({
+                done: false,
+                value: <LogEvent> this.events.shift()
+            });
+
+        }
+
+        if (this.finished) {
+
+            return Promise.resolve({
+                done: true,
+                value: <any> undefined
+            });
+
+        }
+
+        return this.read()
+            .then(() => this.next());
+
+    }
+
+    return (): Promise<IteratorResult<LogEvent>> {
+
+        this.finished = true;
+        this.events = [];
+
+        return Promise.resolve({
+            done: true,
+            value: <any> undefined
+        });
+
+    }
+
+    /**
+     * @param {string} since Duration like 30s, 10m, 2h or 1d, or a date
+     * @param {number} [now] Time in milliseconds since epoch
+     * @returns {number} Time in milliseconds since epoch
+     */
+    static parseSince (since: string, now?: number): number {
+
+        let match = LogStream.REGEX_SINCE.exec(since);
+
+        if (match) {
+
+            return (now || Date.now()) -
+                parseInt(match[1], 10) * LogStream.UNITS[match[2]];
+
+        }
+
+        let time = Date.parse(since);
+
+        if (isNaN(time)) {
+
+            throw new GaldError(
+                GaldError.INVALID_OPTION,
+                `Invalid since value ${since}`,
+                {field: 'since'}
+            );
+
+        }
+
+        return time;
+    }
+
+    /**
+     * Reads the duration and memory figures of a REPORT line
+     *
+     * @param {string} message
+     * @returns {LogReport|undefined} Undefined for any other line
+     */
+    static parseReport (message: string): LogReport | undefined {
+
+        let match = LogStream.REGEX_REPORT.exec(message);
+
+        if (!match) return undefined;
+
+        let field = (name: string): number | undefined => {
+
+            let value = new RegExp(name + ': ([\\d.]+)').exec(message);
+
+            return value ? parseFloat(value[1]) : undefined;
+
+        };
+
+        return {
+            requestId: match[1],
+            duration: field('\\bDuration') || 0,
+            billedDuration: field('Billed Duration') || 0,
+            memorySize: field('Memory Size') || 0,
+            maxMemoryUsed: field('Max Memory Used') || 0,
+            initDuration: field('Init Duration')
+        };
+    }
+
+    /**
+     * @param {string} functionName
+     * @returns {string}
+     */
+    static getLogGroupName (functionName: string): string {
+
+        return '/aws/lambda/' + functionName;
+
+    }
+
+    private read (): Promise<void> {
+
+        let ready: Promise<any>;
+
+        if (!this.source) {
+
+            ready = this.open()
+                .then((source) => {
+
+                    this.source = source;
+                    this.startTime = LogStream.parseSince(
+                        this.options.since || LogStream.DEFAULT_SINCE
+                    );
+
+                });
+
+        } else if (this.polling) {
+
+            ready = Util.delay(
+                this.options.interval || LogStream.DEFAULT_INTERVAL
+            );
+
+        } else {
+
+            ready = Promise.resolve();
+
+        }
+
+        return ready
+            .then(() => this.filterLogEvents())
+            .then((data) => {
+
+                (data.events || []).forEach((event) => {
+
+                    this.addEvent(event);
+
+                });
+
+                this.nextToken = data.nextToken;
+
+                if (!this.nextToken) {
+
+                    this.polling = true;
+                    this.startTime = Math.max(this.startTime, this.latest);
+                    this.finished = !this.options.follow;
+
+                }
+
+            });
+
+    }
+
+    private addEvent (event: CloudWatchLogs.FilteredLogEvent): void {
+
+        let eventId = event.eventId || '';
+        let timestamp = event.timestamp || 0;
+        let message = (event.message || '').replace(/\s+$/, '');
+
+        if (this.seen.indexOf(eventId) !== -1) return;
+
+        if (timestamp > this.latest) {
+
+            this.latest = timestamp;
+            this.seen = [];
+
+        }
+
+        this.seen.push(eventId);
+
+        this.events.push({
+            eventId: eventId,
+            timestamp: timestamp,
+            logStreamName: event.logStreamName || '',
+            message: message,
+            report: LogStream.parseReport(message)
+        });
+
+    }
+
+    /**
+     * A function that never ran has no log group yet, that reads as no events
+     */
+    private filterLogEvents (
+    ): Promise<CloudWatchLogs.FilterLogEventsResponse> {
+
+        return new Promise((resolve, reject) => {
+
+            this.source.logs.filterLogEvents({
+                logGroupName: this.source.logGroupName,
+                startTime: this.startTime,
+                filterPattern: this.options.filter,
+                nextToken: this.nextToken
+            }, (err, data) => {
+
+                if (err && err.code === 'ResourceNotFoundException') {
+
+                    resolve({events: []});
+
+                } else {
+
+                    err ? reject(new AwsApiError('filterLogEvents', err))
+                        : resolve(data);
+
+                }
+
+            });
+
+        });
+
+    }
+}
@@ -1,35 +1,109 @@
 
 // Node JS dependencies
+import * as crypto from 'crypto';
 import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
 import * as os from 'os';
 import * as path from 'path';
 
 // AWS SDK dependencies
-import {SharedIniFileCredentials} from 'aws-sdk';
+import {ConfigurationOptions} from 'aws-sdk/lib/config';
 import {
-    ClientConfiguration,
+    AddPermissionRequest,
+    AliasConfiguration,
+    Concurrency,
+    CreateAliasRequest,
+    CreateEventSourceMappingRequest,
     CreateFunctionRequest,
     EnvironmentResponse,
+    EventSourceMappingConfiguration,
+    FunctionCode,
     FunctionConfiguration,
     GetFunctionResponse,
+    InvocationRequest,
+    InvocationResponse,
+    ListAliasesResponse,
+    ListEventSourceMappingsResponse,
+    ListVersionsByFunctionResponse,
+    PublishVersionRequest,
+    PutFunctionConcurrencyRequest,
+    RemovePermissionRequest,
+    TagResourceRequest,
+    UntagResourceRequest,
+    UpdateAliasRequest,
+    UpdateEventSourceMappingRequest,
     UpdateFunctionCodeRequest,
     UpdateFunctionConfigurationRequest
 } from 'aws-sdk/clients/lambda';
+import CloudWatchLogs = require('aws-sdk/clients/cloudwatchlogs');
+import IAM = require('aws-sdk/clients/iam');
 import Lambda = require('aws-sdk/clients/lambda');
+import S3 = require('aws-sdk/clients/s3');
+import SecretsManager = require('aws-sdk/clients/secretsmanager');
+import SSM = require('aws-sdk/clients/ssm');
+import STS = require('aws-sdk/clients/sts');
 
 // Local dependencies
-import Util from './Util';
+import Archive from './archive';
 import {
+    ArchiveError,
+    AwsApiError,
+    ConfigDriftError,
+    ConfigError,
+    FunctionNotFoundError,
+    GaldError
+} from './errors';
+import Assert from './assert';
+import CredentialChain, {CredentialSource} from './credentials';
+import EventGenerator from './events';
+import LogStream from './logs';
+import Reporter from './reporter';
+import ExecutionRole from './role';
+import Runner from './runner';
+import Schema from './schema';
+import SecretResolver from './secrets';
+import Server from './server';
+import Util from './util';
+import {
+    CallerIdentity,
+    ConfigChange,
     DeployOptions,
+    EventSource,
+    EventTestOptions,
+    EventTestResult,
+    InvokeOptions,
+    InvokeResult,
     LambdaConfig,
+    LambdaOptions,
+    LambdaPlan,
+    LambdaRuntime,
     LambdaSecrets,
-    LambdaTest
+    LambdaTest,
+    LambdaTestResult,
+    LambdaVersion,
+    LogEvent,
+    LogsOptions,
+    MfaTokenProvider,
+    PermissionConfig,
+    PullOptions,
+    RollbackOptions,
+    SchemaViolation,
+    ServeOptions,
+    TestOptions,
+    TestReporter,
+    TrafficShiftingConfig
 } from './types';
 import GdwAwsLambdaType from './types';
 
 class GdwAwsLambda {
 
+    private readonly stage: string;
+    private readonly mfaToken?: MfaTokenProvider;
+
     private lambda: Lambda;
+    private s3: S3;
+    private cloudWatchLogs: CloudWatchLogs;
     private lambdaCfg: LambdaConfig;
     private lambdaSecrets: LambdaSecrets;
     private lambdaTests: LambdaTest[];
@@ -38,10 +112,16 @@ class GdwAwsLambda {
 
     private lambdaGetInfo: GetFunctionResponse;
 
+    // Created once, so an MFA token is asked once
+    private credentialSources: {[key: string]: CredentialSource} = {};
+
     public static readonly FILE_LAMBDA_CONFIG = 'lambda-config.json';
     public static readonly FILE_LAMBDA_SECRETS = 'lambda-secrets.json';
     public static readonly FILE_LAMBDA_TESTS = 'lambda-tests.json';
 
+    public static readonly TEST_REPORTERS = Reporter.REPORTERS;
+    public static readonly EVENT_SOURCES = EventGenerator.SOURCES;
+
     public static readonly INFO_FUNCTION_CODE_UO_TO_DATE =
         'Function code up-to-date';
     public static readonly INFO_DEPLOY_COMPLETE = '' +
@@ -49,472 +129,2886 @@ class GdwAwsLambda {
 
     public static readonly ERR_LAMBDA_NOT_FOUND = 'Lambda not found';
     public static readonly ERR_LAMBDA_CONFIG = 'Lambda config different';
+    public static readonly ERR_ALIAS_NOT_CONFIGURED = 'No alias configured';
+    public static readonly ERR_HEALTH_CHECK = 'Health check failed';
+    public static readonly ERR_HANDLER_CALLBACK_AND_PROMISE =
+        Runner.ERR_HANDLER_CALLBACK_AND_PROMISE;
+    public static readonly ERR_HANDLER_NO_RESULT =
+        Runner.ERR_HANDLER_NO_RESULT;
 
     private static readonly AWS_LAMBDA_VERSION = '2015-03-31';
+    private static readonly AWS_S3_VERSION = '2006-03-01';
+    private static readonly AWS_IAM_VERSION = '2010-05-08';
+    private static readonly AWS_LOGS_VERSION = '2014-03-28';
+    private static readonly AWS_SSM_VERSION = '2014-11-06';
+    private static readonly AWS_SECRETS_MANAGER_VERSION = '2017-10-17';
+    private static readonly AWS_STS_VERSION = '2011-06-15';
 
-    //region Entry methods
+    // A new role can take a few seconds before AWS Lambda can assume it
+    private static readonly ROLE_RETRIES = 10;
+    private static readonly ROLE_RETRY_DELAY = 3000;
 
-    public init (): Promise<Array<string>> {
+    // AWS Lambda rejects changes while an earlier one is in progress
+    private static readonly READY_RETRIES = 60;
+    private static readonly READY_DELAY = 2000;
 
-        return Promise.all([
-            this.checkAndInit(
-                GdwAwsLambda.FILE_LAMBDA_CONFIG,
-                GdwAwsLambda.FILE_LAMBDA_CONFIG
-            ),
-            this.checkAndInit(
-                GdwAwsLambda.FILE_LAMBDA_SECRETS,
-                GdwAwsLambda.FILE_LAMBDA_SECRETS
-            ),
-            this.checkAndInit(
-                GdwAwsLambda.FILE_LAMBDA_TESTS,
-                GdwAwsLambda.FILE_LAMBDA_TESTS
-            )
-        ]);
+    // Largest archive AWS Lambda accepts inline, larger ones go through S3
+    private static readonly ZIP_FILE_LIMIT = 50 * 1024 * 1024;
 
-    }
+    private static readonly REGEX_STAGE = /^[a-zA-Z0-9_-]+$/;
 
-    public deploy (options?: DeployOptions) {
+    private static readonly MASK = '******';
 
-        return this.createLambdaService()
-            .then(() => {
+    private static readonly PULL_ARCHIVE_NAME = 'archive.zip';
 
-                return this.checkLambda(options);
+    private static readonly STATEMENT_ID_PREFIX = 'gald-';
+    private static readonly DEFAULT_PERMISSION_ACTION =
+        'lambda:InvokeFunction';
 
-            })
-            .then((result: string | GetFunctionResponse) => {
+    constructor (options?: LambdaOptions) {
 
-                if (result === GdwAwsLambda.ERR_LAMBDA_NOT_FOUND) {
+        this.stage = options && Util.isNEString(options.stage) ?
+            options.stage : '';
+        this.mfaToken = options && options.mfaToken;
 
-                    return this.createLambdaFunction();
+    }
 
-                } else {
+    //region Entry methods
 
-                    let promises = [];
+    public init (): Promise<Array<string>> {
 
-                    if (options && options.updateConfig) {
+        if (this.stage && !GdwAwsLambda.REGEX_STAGE.test(this.stage)) {
 
-                        promises.push(this.updateLambdaConfig());
+            return Promise.reject(GdwAwsLambda.createStageError(this.stage));
 
-                    } else {
+        }
 
-                        if (!this.checkLambdaConfig(this.lambdaGetInfo)) {
+        let promises = [
+            this.checkAndInit(GdwAwsLambda.FILE_LAMBDA_CONFIG),
+            this.checkAndInit(GdwAwsLambda.FILE_LAMBDA_SECRETS),
+            this.checkAndInit(GdwAwsLambda.FILE_LAMBDA_TESTS)
+        ];
 
-                            return Promise
-                                .reject(GdwAwsLambda.ERR_LAMBDA_CONFIG);
+        if (this.stage) {
 
-                        }
+            promises.push(
+                this.checkAndInitStage(GdwAwsLambda.FILE_LAMBDA_CONFIG),
+                this.checkAndInitStage(GdwAwsLambda.FILE_LAMBDA_SECRETS)
+            );
 
-                    }
+        }
 
-                    promises.push(this.updateLambdaFunctionCode());
+        return Promise.all(promises);
 
-                    return Promise.all(promises)
-                        .then(() => {
+    }
 
-                            return GdwAwsLambda.INFO_DEPLOY_COMPLETE;
+    /**
+     * Checks the config files against their schemas without calling AWS,
+     * the secrets and tests files are skipped when they do not exist
+     *
+     * @param {string} [testFileName]
+     * @returns {Promise.<Array.<string>>} One message per file, rejects
+     *                                     with every problem found
+     */
+    public validate (testFileName?: string): Promise<Array<string>> {
 
-                        });
+        let testFile = Util.isNEString(testFileName) ?
+            testFileName : GdwAwsLambda.FILE_LAMBDA_TESTS;
+        let errors: Array<GaldError> = [];
 
-                }
+        let check = (
+            file: string,
+            optional: boolean,
+            read: () => Promise<object>
+        ): Promise<string> => {
 
-            });
+            return GdwAwsLambda.existsFile(file)
+                .then((exists) => {
 
-    }
+                    if (!exists && optional) {
 
-    public test (testFileName?: string) {
+                        return `File ${file} not found, skipped`;
 
-        let testFile = GdwAwsLambda.FILE_LAMBDA_TESTS;
+                    }
 
-        if (Util.isNEString(testFileName)) {
-            testFile = testFileName;
-        }
+                    return read()
+                        .then(
+                            () => `File ${file} is valid`,
+                            (error) => {
 
-        return Promise.all([
-            this.readObject(
-                GdwAwsLambda.FILE_LAMBDA_CONFIG,
-                GdwAwsLambda.FILE_LAMBDA_CONFIG
-            ).then((cfg) => {
+                                errors.push(error);
 
-                if (GdwAwsLambdaType.isLambdaConfig(cfg) &&
-                    Util.isNEString(cfg.FunctionName) &&
-                    Util.isNEString(cfg.Handler)) {
+                                return '';
 
-                    this.lambdaCfg = cfg;
+                            }
+                        );
 
-                    return this.lambdaCfg;
+                });
 
-                } else {
+        };
 
-                    // return Promise.reject('Invalid Lambda config');
-                    throw 'Invalid Lambda config';
+        return Promise.all([
+            check(GdwAwsLambda.FILE_LAMBDA_CONFIG, false, () => {
 
-                }
+                return this.readStageObject(GdwAwsLambda.FILE_LAMBDA_CONFIG);
 
             }),
-            this.readObject(
-                testFile,
-                GdwAwsLambda.FILE_LAMBDA_TESTS
-            ).then((obj) => {
+            check(GdwAwsLambda.FILE_LAMBDA_SECRETS, true, () => {
 
-                if (GdwAwsLambdaType.isLambdaTests(obj)) {
+                return this.readStageObject(GdwAwsLambda.FILE_LAMBDA_SECRETS);
 
-                    this.lambdaTests = obj;
+            }),
+            check(testFile, true, () => {
 
-                    return this.lambdaTests;
+                return this.readObject(
+                    testFile,
+                    GdwAwsLambda.FILE_LAMBDA_TESTS
+                );
 
-                } else {
+            })
+        ])
+            .then((messages) => {
 
-                    // return Promise.reject('Invalid Lambda tests');
-                    throw 'Invalid Lambda tests';
-                }
+                if (errors.length === 1) {
 
-            })
-        ]).then(() => {
+                    throw errors[0];
 
-            return this.runTests();
+                } else if (errors.length > 1) {
 
-        });
+                    throw new ConfigError(
+                        errors.map((error) => error.message).join(os.EOL),
+                        {cause: errors},
+                        errors.reduce((violations, error) => {
+
+                            return error instanceof ConfigError ?
+                                violations.concat(error.violations)
+                                : violations;
+
+                        }, <Array<SchemaViolation>> [])
+                    );
+
+                }
+
+                return messages;
+
+            });
 
     }
 
-    //endregion
+    /**
+     * Shows the account and identity the AWS requests are made with,
+     * only the secrets file is read and it may be missing
+     *
+     * @returns {Promise.<CallerIdentity>}
+     */
+    public whoami (): Promise<CallerIdentity> {
 
-    private createLambdaService (): Promise<Lambda> {
+        let secrets: LambdaSecrets;
+        let source: CredentialSource;
 
-        return this.readConfig()
-            .then(() => {
+        return GdwAwsLambda.existsFile(GdwAwsLambda.FILE_LAMBDA_SECRETS)
+            .then((exists): Promise<object | null> => {
 
-                let lambdaOptions: ClientConfiguration = {
-                    apiVersion: GdwAwsLambda.AWS_LAMBDA_VERSION,
-                    region: this.lambdaSecrets.region
-                };
+                return exists ?
+                    this.readStageObject(GdwAwsLambda.FILE_LAMBDA_SECRETS)
+                    : Promise.resolve(GdwAwsLambda.createObject(
+                        GdwAwsLambda.FILE_LAMBDA_SECRETS
+                    ));
 
-                // Authentication
+            })
+            .then((cfg) => {
 
-                if (Util.isNEString(this.lambdaSecrets.profile)) {
+                if (!GdwAwsLambdaType.isLambdaSecrets(cfg) ||
+                    !Util.isNEString(GdwAwsLambda.getRegion(cfg))) {
 
-                    lambdaOptions.credentials = new SharedIniFileCredentials({
-                        profile: this.lambdaSecrets.profile
+                    throw new ConfigError('No region configured', {
+                        file: this.getSecretsFile(),
+                        field: 'region'
                     });
 
-                } else if (Util.isNEString(this.lambdaSecrets.accessKeyId) &&
-                    Util.isNEString(this.lambdaSecrets.secretAccessKey)) {
+                }
 
-                    lambdaOptions.accessKeyId =
-                        this.lambdaSecrets.accessKeyId;
-                    lambdaOptions.secretAccessKey =
-                        this.lambdaSecrets.secretAccessKey;
+                secrets = cfg;
+                source = this.getCredentialSource(secrets);
 
-                }
+                return this.getCallerIdentity(new STS(Object.assign({
+                    apiVersion: GdwAwsLambda.AWS_STS_VERSION
+                }, this.getServiceOptions(secrets))));
 
-                this.lambda = new Lambda(lambdaOptions);
+            })
+            .then((identity) => {
 
-                return this.lambda;
+                return {
+                    account: identity.Account || '',
+                    arn: identity.Arn || '',
+                    userId: identity.UserId || '',
+                    region: GdwAwsLambda.getRegion(secrets),
+                    credentials: source.description
+                };
 
             });
 
     }
 
-    private checkLambda (
-        options?: DeployOptions
-    ): Promise<string|GetFunctionResponse> {
+    /**
+     * Writes the config and secrets files, and optionally the archive,
+     * from a function that already exists in AWS Lambda.
+     * With a stage the stage files are written.
+     *
+     * @param {string} functionName Name or ARN of the function
+     * @param {PullOptions} [options]
+     * @returns {Promise.<Array.<string>>} One message per written file
+     */
+    public pull (
+        functionName: string,
+        options?: PullOptions
+    ): Promise<Array<string>> {
+
+        let opts = options || {};
+        let configFile = GdwAwsLambda.FILE_LAMBDA_CONFIG;
+        let secretsFile = GdwAwsLambda.FILE_LAMBDA_SECRETS;
+
+        if (this.stage) {
+
+            if (!GdwAwsLambda.REGEX_STAGE.test(this.stage)) {
+
+                return Promise.reject(
+                    GdwAwsLambda.createStageError(this.stage)
+                );
 
-        return new Promise((resolve, reject) => {
+            }
 
-            this.lambda.getFunction(
-                {
-                    FunctionName: this.lambdaCfg.FunctionName
-                },
-                (err, data) => {
+            configFile = GdwAwsLambda.getStageFile(configFile, this.stage);
+            secretsFile = GdwAwsLambda.getStageFile(secretsFile, this.stage);
 
-                    if (err) {
+        }
 
-                        if (err.code === 'ResourceNotFoundException') {
+        if (!Util.isNEString(functionName)) {
 
-                            if (options && options.create) {
+            return Promise.reject(new GaldError(
+                GaldError.INVALID_OPTION,
+                'No function name given',
+                {field: 'functionName'}
+            ));
 
-                                resolve(GdwAwsLambda.ERR_LAMBDA_NOT_FOUND);
+        }
 
-                            } else {
+        let info: GetFunctionResponse;
 
-                                reject(GdwAwsLambda.ERR_LAMBDA_NOT_FOUND);
+        return Promise.all([
+            opts.overwrite ? false : GdwAwsLambda.existsFile(configFile),
+            opts.overwrite ? false : GdwAwsLambda.existsFile(secretsFile),
+            // An invalid secrets file is about to be replaced
+            this.readTestSecrets().catch(() => null)
+        ])
+            .then((results) => {
 
-                            }
+                if (results[0] || results[1]) {
 
-                        } else {
+                    let file = results[0] ? configFile : secretsFile;
 
-                            reject('Lambda getFunction Error');
+                    throw new GaldError(
+                        GaldError.FILE_EXISTS,
+                        `File ${file} exists already`,
+                        {file: file}
+                    );
 
-                        }
+                }
 
-                    } else  {
+                let secrets: any = Object.assign({}, results[2]);
 
-                        // Store Lambda information
-                        this.lambdaGetInfo = data;
+                secrets.region = opts.region || secrets.region ||
+                    process.env.AWS_REGION;
 
-                        resolve(this.lambdaGetInfo);
+                if (opts.profile) secrets.profile = opts.profile;
 
-                    }
+                if (!Util.isNEString(secrets.region)) {
+
+                    throw new ConfigError('No region configured', {
+                        file: secretsFile,
+                        field: 'region'
+                    });
 
                 }
-            );
-        });
-    }
 
-    private checkLambdaConfig (config: GetFunctionResponse): boolean {
+                this.lambdaSecrets = secrets;
+                this.lambda = new Lambda(Object.assign({
+                    apiVersion: GdwAwsLambda.AWS_LAMBDA_VERSION
+                }, this.getServiceOptions(secrets)));
 
-        let isEqual = (
-            config &&
-            config.Configuration &&
-            config.Configuration &&
-            config.Configuration.FunctionName === this.lambdaCfg.FunctionName &&
-            config.Configuration.Description === this.lambdaCfg.Description &&
-            config.Configuration.Handler === this.lambdaCfg.Handler &&
-            config.Configuration.Runtime === this.lambdaCfg.Runtime &&
-            config.Configuration.MemorySize === this.lambdaCfg.MemorySize &&
-            config.Configuration.Timeout === this.lambdaCfg.Timeout &&
-            config.Configuration.Role === this.lambdaSecrets.Role
-        );
+                return this.getFunction(functionName);
 
-        if (config && config.Configuration && isEqual) {
+            })
+            .then((data) => {
 
-            isEqual = GdwAwsLambda.compareEnvironment(
-                config.Configuration.Environment,
-                this.lambdaSecrets.Environment
-            );
-        }
+                info = data;
 
-        if (typeof isEqual === 'boolean') {
-            return isEqual;
-        } else {
-            return false;
-        }
-    }
+                let config: any = info.Configuration || {};
 
-    private static compareEnvironment (
-        env1: EnvironmentResponse | null | undefined,
-        env2: EnvironmentResponse | null | undefined
-    ): boolean {
+                if (config.PackageType === 'Image') {
 
-        if ((Util.isEmpty(env1) || Util.isObject(env1) &&
-            Util.isEmpty(env1.Variables)) &&
-            (Util.isEmpty(env2) || Util.isObject(env2) &&
-            Util.isEmpty(env2.Variables))) {
+                    throw new ConfigError(
+                        `Lambda function (${functionName}) is a container ` +
+                        'image, only .zip functions can be pulled',
+                        {file: configFile, field: 'Runtime'}
+                    );
 
-            return true;
+                }
 
-        } else if (Util.isObject(env2) &&
-            Util.isObject(env2.Variables) &&
-            Object.keys(env2.Variables).length > 0 &&
-            (Util.isEmpty(env1) || Util.isObject(env1) &&
-            Util.isEmpty(env1.Variables))) {
+                let lambdaConfig = GdwAwsLambda.createConfigFromFunction(info);
+                let lambdaSecrets = GdwAwsLambda.createSecretsFromFunction(
+                    info,
+                    this.lambdaSecrets,
+                    !!opts.omitEnvironment
+                );
 
-            return false;
+                // Nothing is written when either file would be invalid,
+                // like for a runtime other than Node.js
+                let error = GdwAwsLambda.checkObject(
+                    lambdaConfig,
+                    GdwAwsLambda.FILE_LAMBDA_CONFIG,
+                    configFile
+                ) || GdwAwsLambda.checkObject(
+                    lambdaSecrets,
+                    GdwAwsLambda.FILE_LAMBDA_SECRETS,
+                    secretsFile
+                );
 
-        } else if (Util.isObject(env1) &&
-            Util.isObject(env1.Variables) &&
-            Object.keys(env1.Variables).length > 0 &&
-            (Util.isEmpty(env2) || Util.isObject(env2) &&
-            Util.isEmpty(env2.Variables))) {
+                if (error) {
 
-            return false;
+                    throw error;
 
-        } else if (Util.isObject(env1) && Util.isObject(env1.Variables) &&
-            Util.isObject(env2) && Util.isObject(env2.Variables)) {
+                }
 
-            let k1 = Object.keys(env1.Variables);
-            let k2 = Object.keys(env2.Variables);
+                return Promise.all([
+                    this.writeObject(configFile, lambdaConfig),
+                    this.writeObject(secretsFile, lambdaSecrets)
+                ]);
 
-            let l1 = k1.length;
-            let l2 = k2.length;
+            })
+            .then((messages) => {
 
-            if (l1 === l2) {
+                if (!opts.code) return messages;
 
-                let i;
-                for (i = 0; i < l1; i++) {
+                if (!info.Code || !Util.isNEString(info.Code.Location)) {
 
-                    if (env1.Variables[k1[i]] !== env2.Variables[k1[i]]) {
+                    throw new AwsApiError(
+                        'getFunction',
+                        undefined,
+                        'No code location returned'
+                    );
 
-                        return false;
-                    }
                 }
 
-                return true;
+                return GdwAwsLambda.downloadFile(
+                    info.Code.Location,
+                    GdwAwsLambda.PULL_ARCHIVE_NAME
+                )
+                    .then((message) => messages.concat(message));
 
-            } else {
+            });
 
-                return false;
-            }
+    }
 
-        } else {
+    public deploy (options?: DeployOptions) {
 
-            return false;
-        }
+        let log = options && options.log ? options.log : () => undefined;
 
-    }
+        return (
+            options && options.createRole ?
+                this.createRole() : Promise.resolve('')
+        )
+            .then((message) => {
 
-    private createLambdaFunction () {
+                if (message) log(message);
 
-        return this.readArchive()
-            .then((result) => {
+                return this.createLambdaService();
 
-                let params: CreateFunctionRequest = {
-                    FunctionName: this.lambdaCfg.FunctionName,
-                    Description: this.lambdaCfg.Description,
-                    Handler: this.lambdaCfg.Handler,
-                    Runtime: this.lambdaCfg.Runtime,
-                    MemorySize: this.lambdaCfg.MemorySize,
-                    Timeout: this.lambdaCfg.Timeout,
-                    Publish: this.lambdaCfg.Publish,
-                    Role: this.lambdaSecrets.Role,
-                    Code: {
-                        ZipFile: result
-                    }
-                };
+            })
+            .then(() => {
 
-                return this.createFunction(params)
-                    .then(
-                        () => {
+                return this.resolveSecrets(this.lambdaSecrets);
 
-                            return 'Lambda function (' +
-                                this.lambdaCfg.FunctionName + ') created';
+            })
+            .then((secrets) => {
 
+                this.lambdaSecrets = secrets;
+
+                if (this.lambdaCfg.trafficShifting &&
+                    !Util.isNEString(this.lambdaCfg.alias)) {
+
+                    throw new ConfigError(
+                        'Traffic shifting requires an alias',
+                        {
+                            file: GdwAwsLambda.FILE_LAMBDA_CONFIG,
+                            field: 'alias'
                         }
                     );
 
-            });
-
-    }
+                }
 
-    private updateLambdaConfig (): Promise<string> {
+                return this.checkLambda(options);
 
-        let params: UpdateFunctionConfigurationRequest = {
-            FunctionName: this.lambdaCfg.FunctionName,
-            Description: this.lambdaCfg.Description,
-            Handler: this.lambdaCfg.Handler,
-            Runtime: this.lambdaCfg.Runtime,
-            MemorySize: this.lambdaCfg.MemorySize,
-            Timeout: this.lambdaCfg.Timeout,
-            Role: this.lambdaSecrets.Role,
-            Environment: this.lambdaSecrets.Environment
-        };
+            })
+            .then((result: string | GetFunctionResponse) => {
 
-        return this.updateConfig(params)
-            .then(
-                () => {
+                if (result === GdwAwsLambda.ERR_LAMBDA_NOT_FOUND) {
 
-                    return 'Lambda function (' +
-                        this.lambdaCfg.FunctionName +
-                        ') configuration updated';
+                    return this.createLambdaFunction();
 
-                }
-            );
+                } else {
 
-    }
+                    let update: Promise<any> = Promise.resolve();
 
-    private updateLambdaFunctionCode (): Promise<string> {
+                    if (options && options.updateConfig) {
 
-        return this.readArchive()
-            .then(() => {
+                        // The code update is rejected until the
+                        // configuration update has finished
+                        update = this.updateLambdaConfig();
 
-                return this.updateFunctionCode({
-                    FunctionName: this.lambdaCfg.FunctionName,
-                    Publish: this.lambdaCfg.Publish,
-                    ZipFile: this.lambdaBuffer,
-                    DryRun: true
-                });
+                    } else {
 
-            })
-            .then((result: FunctionConfiguration) => {
+                        if (!this.checkLambdaConfig(this.lambdaGetInfo)) {
 
-                if (this.lambdaGetInfo && this.lambdaGetInfo.Configuration) {
+                            return Promise.reject(new ConfigDriftError(
+                                GdwAwsLambda.ERR_LAMBDA_CONFIG,
+                                this.lambdaCfg.FunctionName,
+                                this.diffLambdaConfig(this.lambdaGetInfo)
+                            ));
 
-                    if (result.CodeSha256 !==
-                        this.lambdaGetInfo.Configuration.CodeSha256) {
+                        }
 
-                        return this.updateFunctionCode({
-                            FunctionName: this.lambdaCfg.FunctionName,
-                            Publish: this.lambdaCfg.Publish,
-                            ZipFile: this.lambdaBuffer,
-                            DryRun: false
-                        })
-                            .then(
-                                () => {
+                    }
 
-                                    return 'Lambda function (' +
-                                        this.lambdaCfg.FunctionName +
-                                        ') code has been updated';
+                    return update
+                        .then(() => this.updateLambdaFunctionCode())
+                        .then(() => {
 
-                                }
-                            );
+                            return GdwAwsLambda.INFO_DEPLOY_COMPLETE;
 
-                    } else {
+                        });
 
-                        return GdwAwsLambda.INFO_FUNCTION_CODE_UO_TO_DATE;
+                }
 
-                    }
+            })
+            .then((result: string) => {
 
-                } else {
+                if (!this.lambdaCfg.Publish &&
+                    !Util.isNEString(this.lambdaCfg.alias)) {
 
-                    // return Promise
-                    //     .reject('Invalid Lambda function information');
-                    throw 'Invalid Lambda function information';
+                    return result;
 
                 }
 
-            });
-
-    }
+                return this.publishLambdaVersion(log)
+                    .then((messages) => {
 
-    //region AWS Lambda Promise wrappers
+                        return [result].concat(messages).join(os.EOL);
 
-    private createFunction (
-        params: CreateFunctionRequest
-    ): Promise<FunctionConfiguration> {
+                    });
 
-        return new Promise((resolve, reject) => {
+            })
+            .then((result: string) => {
 
-            this.lambda.createFunction(
-                params,
-                (err, data) => {
+                if (!this.lambdaCfg.eventSources) {
 
-                    err ? reject(err)
-                        : resolve(data);
+                    return result;
 
                 }
-            );
 
-        });
+                return this.updateEventSources(!!(options && options.prune))
+                    .then((messages) => {
 
-    }
+                        return [result].concat(messages).join(os.EOL);
 
-    private updateConfig (
-        params: UpdateFunctionConfigurationRequest
-    ): Promise<FunctionConfiguration> {
+                    });
 
-        return new Promise((resolve, reject) => {
+            })
+            .then((result: string) => {
+
+                if (!this.lambdaCfg.permissions) {
+
+                    return result;
+
+                }
+
+                return this.updatePermissions()
+                    .then((messages) => {
+
+                        return [result].concat(messages).join(os.EOL);
+
+                    });
+
+            });
+
+    }
+
+    /**
+     * Creates an execution role named after the function,
+     * when the secrets have no Role yet,
+     * and writes its ARN to the secrets file of the stage
+     *
+     * @returns {Promise.<string>}
+     */
+    public createRole (): Promise<string> {
+
+        let secretsFile = this.getSecretsFile();
+
+        return Promise.all([
+            this.readLambdaConfig(),
+            this.readStageObject(GdwAwsLambda.FILE_LAMBDA_SECRETS)
+        ])
+            .then((results): Promise<string> | string => {
+
+                let secrets = results[1];
+
+                if (!GdwAwsLambdaType.isLambdaSecrets(secrets) ||
+                    !Util.isNEString(GdwAwsLambda.getRegion(secrets))) {
+
+                    throw new ConfigError('No region configured', {
+                        file: secretsFile,
+                        field: 'region'
+                    });
+
+                }
+
+                if (Util.isNEString(secrets.Role)) {
+
+                    return `Role ${secrets.Role} is set already`;
+
+                }
+
+                let iam = new IAM(Object.assign({
+                    apiVersion: GdwAwsLambda.AWS_IAM_VERSION
+                }, this.getServiceOptions(secrets)));
+
+                let roleArn: string;
+
+                return ExecutionRole.create(iam, this.lambdaCfg)
+                    .then((arn) => {
+
+                        roleArn = arn;
+
+                        return this.readObject(secretsFile);
+
+                    })
+                    .then((obj) => {
+
+                        return this.writeObject(
+                            secretsFile,
+                            Object.assign(obj, {Role: roleArn})
+                        );
+
+                    })
+                    .then(() => {
+
+                        return `Role ${roleArn} written to ${secretsFile}`;
+
+                    });
+
+            });
+
+    }
+
+    /**
+     * Points the alias back at the previous published version,
+     * or at the given version
+     *
+     * @param {RollbackOptions} [options]
+     * @returns {Promise.<string>}
+     */
+    public rollback (options?: RollbackOptions): Promise<string> {
+
+        let aliasName: string;
+
+        return this.createLambdaService()
+            .then(() => {
+
+                if (!Util.isNEString(this.lambdaCfg.alias)) {
+
+                    throw new ConfigError(
+                        GdwAwsLambda.ERR_ALIAS_NOT_CONFIGURED,
+                        {
+                            file: GdwAwsLambda.FILE_LAMBDA_CONFIG,
+                            field: 'alias'
+                        }
+                    );
+
+                }
+
+                aliasName = this.lambdaCfg.alias;
+
+                return Promise.all([
+                    this.getAlias(aliasName),
+                    this.listVersions()
+                ]);
+
+            })
+            .then((results) => {
+
+                let alias = results[0];
+                let versions = GdwAwsLambda.getPublishedVersions(results[1]);
+
+                if (!alias || !alias.FunctionVersion) {
+
+                    throw new GaldError(
+                        GaldError.NOT_FOUND,
+                        `Alias ${aliasName} not found`,
+                        {field: 'alias'}
+                    );
+
+                }
+
+                let current = alias.FunctionVersion;
+                let target: string | undefined;
+
+                if (options && Util.isNEString(options.to)) {
+
+                    target = options.to;
+
+                    if (versions.indexOf(target) === -1) {
+
+                        throw new GaldError(
+                            GaldError.NOT_FOUND,
+                            `Version ${target} not found`,
+                            {field: 'to'}
+                        );
+
+                    }
+
+                } else {
+
+                    target = versions
+                        .filter((version) => {
+
+                            return parseInt(version, 10) <
+                                parseInt(current, 10);
+
+                        })
+                        .pop();
+
+                    if (!target) {
+
+                        throw new GaldError(
+                            GaldError.NOT_FOUND,
+                            `No version published before ${current}`
+                        );
+
+                    }
+
+                }
+
+                return this.pointAlias(aliasName, target, alias);
+
+            });
+
+    }
+
+    /**
+     * Lists the published versions and the aliases pointing at them
+     *
+     * @returns {Promise.<Array.<LambdaVersion>>}
+     */
+    public versions (): Promise<Array<LambdaVersion>> {
+
+        return this.createLambdaService()
+            .then(() => {
+
+                return Promise.all([
+                    this.listVersions(),
+                    this.listAliases()
+                ]);
+
+            })
+            .then((results) => {
+
+                let versions = GdwAwsLambda.getPublishedVersions(results[0]);
+                let aliases = results[1];
+
+                return versions.map((version): LambdaVersion => {
+
+                    let config = results[0].filter((item) => {
+
+                        return item.Version === version;
+
+                    })[0];
+
+                    return {
+                        Version: version,
+                        CodeSha256: config.CodeSha256 || '',
+                        Description: config.Description || '',
+                        LastModified: config.LastModified || '',
+                        aliases: aliases
+                            .filter((alias) => {
+
+                                return alias.FunctionVersion === version;
+
+                            })
+                            .map((alias) => alias.Name || '')
+                    };
+
+                });
+
+            });
+
+    }
+
+    public plan (): Promise<LambdaPlan> {
+
+        return this.createLambdaService()
+            .then(() => {
+
+                return this.resolveSecrets(this.lambdaSecrets);
+
+            })
+            .then((secrets) => {
+
+                this.lambdaSecrets = secrets;
+
+                return Promise.all([
+                    this.checkLambda({ create: true }),
+                    this.readArchive()
+                ]);
+
+            })
+            .then((results) => {
+
+                let codeSha256 = GdwAwsLambda.getCodeSha256(results[1]);
+
+                if (results[0] === GdwAwsLambda.ERR_LAMBDA_NOT_FOUND) {
+
+                    return {
+                        FunctionName: this.lambdaCfg.FunctionName,
+                        exists: false,
+                        changes: this.diffLambdaConfig(),
+                        codeChanged: true
+                    };
+
+                }
+
+                let config = this.lambdaGetInfo.Configuration;
+
+                return {
+                    FunctionName: this.lambdaCfg.FunctionName,
+                    exists: true,
+                    changes: this.diffLambdaConfig(this.lambdaGetInfo),
+                    codeChanged: !config || config.CodeSha256 !== codeSha256
+                };
+
+            });
+
+    }
+
+    public package (): Promise<string> {
+
+        return this.readLambdaConfig()
+            .then(() => {
+
+                if (!this.lambdaCfg.package) {
+
+                    throw new ConfigError('No package configuration', {
+                        file: GdwAwsLambda.FILE_LAMBDA_CONFIG,
+                        field: 'package'
+                    });
+
+                }
+
+                return this.buildArchive();
+
+            })
+            .then(() => {
+
+                return this.writeArchive();
+
+            });
+
+    }
+
+    public test (
+        testFileName?: string,
+        options?: TestOptions
+    ): Promise<Array<LambdaTestResult>> {
+
+        let testFile = GdwAwsLambda.FILE_LAMBDA_TESTS;
+
+        if (Util.isNEString(testFileName)) {
+            testFile = testFileName;
+        }
+
+        return Promise.all([
+            this.readTestSecrets(),
+            this.readLambdaConfig(),
+            this.readObject(
+                testFile,
+                GdwAwsLambda.FILE_LAMBDA_TESTS
+            ).then((obj) => {
+
+                if (GdwAwsLambdaType.isLambdaTests(obj)) {
+
+                    this.lambdaTests = obj;
+
+                    return this.lambdaTests;
+
+                } else {
+
+                    throw new ConfigError('Invalid Lambda tests', {
+                        file: testFile
+                    });
+                }
+
+            })
+        ]).then((results) => {
+
+            if (options && options.remote) {
+
+                return this.runRemoteTests(options);
+
+            }
+
+            return this.resolveTestSecrets(results[0])
+                .then((secrets) => this.runTests(secrets, options));
+
+        });
+
+    }
+
+    /**
+     * Invokes the deployed function with an event from a file,
+     * the events of a test or an empty event
+     *
+     * @param {InvokeOptions} [options]
+     * @returns {Promise.<Array.<InvokeResult>>} One result per event
+     */
+    public invoke (options?: InvokeOptions): Promise<Array<InvokeResult>> {
+
+        let opts = options || {};
+
+        return this.createLambdaService()
+            .then(() => {
+
+                return this.readInvokeEvents(opts);
+
+            })
+            .then((events) => {
+
+                return Util.mapLimit(events, 1, (event) => {
+
+                    return this.invokeFunction({
+                        FunctionName: this.lambdaCfg.FunctionName,
+                        Qualifier: opts.qualifier,
+                        InvocationType: opts.async ?
+                            'Event' : 'RequestResponse',
+                        LogType: opts.async ? 'None' : 'Tail',
+                        Payload: JSON.stringify(event)
+                    });
+
+                });
+
+            })
+            .then((responses) => {
+
+                return responses.map((response): InvokeResult => {
+
+                    return {
+                        StatusCode: response.StatusCode || 0,
+                        ExecutedVersion: response.ExecutedVersion,
+                        FunctionError: response.FunctionError,
+                        payload: GdwAwsLambda.parsePayload(response.Payload),
+                        log: response.LogResult ?
+                            Buffer.from(response.LogResult, 'base64')
+                                .toString('utf8')
+                            : undefined
+                    };
+
+                });
+
+            });
+
+    }
+
+    /**
+     * Reads the log events of the deployed function, oldest first.
+     * Nothing is requested before the first call of next.
+     *
+     * @example
+     * for await (let event of lambda.logs({since: '1h'})) {}
+     *
+     * @param {LogsOptions} [options]
+     * @returns {AsyncIterableIterator.<LogEvent>}
+     */
+    public logs (options?: LogsOptions): AsyncIterableIterator<LogEvent> {
+
+        return new LogStream(() => {
+
+            return this.createLambdaService()
+                .then(() => {
+
+                    return {
+                        logs: this.cloudWatchLogs,
+                        logGroupName: LogStream.getLogGroupName(
+                            this.lambdaCfg.FunctionName
+                        )
+                    };
+
+                });
+
+        }, options || {});
+
+    }
+
+    /**
+     * Starts a local HTTP server that invokes the handler
+     * with API Gateway proxy events
+     *
+     * @param {ServeOptions} [options]
+     * @returns {Promise.<http.Server>}
+     */
+    public serve (options?: ServeOptions): Promise<http.Server> {
+
+        return Promise.all([
+            this.readTestSecrets(),
+            this.readLambdaConfig()
+        ]).then((results) => {
+
+            return this.resolveTestSecrets(results[0]);
+
+        }).then((secrets) => {
+
+            Runner.applyEnvironment(this.createTestEnvironment(secrets));
+
+            return new Server(this.lambdaCfg, options || {}).start();
+
+        });
+
+    }
+
+    /**
+     * Adds a test with a generated event to the tests file
+     *
+     * @param {EventSource} source
+     * @param {Object.<string, string>} [params]
+     * @param {EventTestOptions} [options]
+     * @returns {Promise.<string>}
+     */
+    public addEventTest (
+        source: EventSource,
+        params?: {[key: string]: string},
+        options?: EventTestOptions
+    ): Promise<string> {
+
+        let testFile = options && Util.isNEString(options.testFileName) ?
+            options.testFileName : GdwAwsLambda.FILE_LAMBDA_TESTS;
+
+        let test: LambdaTest;
+
+        try {
+
+            test = {
+                name: options && Util.isNEString(options.name) ?
+                    options.name : source + ' event',
+                context: {},
+                events: [GdwAwsLambda.generateEvent(source, params)]
+            };
+
+        } catch (e) {
+
+            return Promise.reject(e);
+
+        }
+
+        return new Promise<boolean>((resolve) => {
+
+            fs.access(testFile, (err) => {
+
+                resolve(!err);
+
+            });
+
+        })
+            .then((exists): Promise<object> | Array<LambdaTest> => {
+
+                return exists ?
+                    this.readObject(testFile, GdwAwsLambda.FILE_LAMBDA_TESTS)
+                    : [];
+
+            })
+            .then((tests) => {
+
+                return this.writeObject(
+                    testFile,
+                    (<Array<LambdaTest>> tests).concat(test)
+                );
+
+            });
+
+    }
+
+    //endregion
+
+    /**
+     * Creates an example event as sent by an AWS service
+     *
+     * @param {EventSource} source
+     * @param {Object.<string, string>} [params] Overrides for the defaults
+     * @returns {Object}
+     */
+    public static generateEvent (
+        source: EventSource,
+        params?: {[key: string]: string}
+    ): object {
+
+        return EventGenerator.generate(source, params || {});
+
+    }
+
+    /**
+     * Formats test results
+     *
+     * @param {Array.<LambdaTestResult>} results
+     * @param {TestReporter} [reporter=pretty]
+     * @param {boolean} [verbose] Include results and errors
+     * @returns {string}
+     */
+    public static report (
+        results: Array<LambdaTestResult>,
+        reporter?: TestReporter,
+        verbose?: boolean
+    ): string {
+
+        return Reporter.format(results, reporter || 'pretty', !!verbose);
+
+    }
+
+    private createLambdaService (): Promise<Lambda> {
+
+        return this.readConfig()
+            .then(() => {
+
+                let serviceOptions = this.getServiceOptions(
+                    this.lambdaSecrets
+                );
+
+                this.lambda = new Lambda(Object.assign({
+                    apiVersion: GdwAwsLambda.AWS_LAMBDA_VERSION
+                }, serviceOptions));
+
+                this.s3 = new S3(Object.assign({
+                    apiVersion: GdwAwsLambda.AWS_S3_VERSION
+                }, serviceOptions));
+
+                this.cloudWatchLogs = new CloudWatchLogs(Object.assign({
+                    apiVersion: GdwAwsLambda.AWS_LOGS_VERSION
+                }, serviceOptions));
+
+                return this.lambda;
+
+            });
+
+    }
+
+    /**
+     * Creates the region and credential options of the AWS services
+     *
+     * @param {LambdaSecrets} secrets
+     * @returns {ConfigurationOptions}
+     */
+    private getServiceOptions (secrets: LambdaSecrets): ConfigurationOptions {
+
+        let source = this.getCredentialSource(secrets);
+        let serviceOptions: ConfigurationOptions = {
+            region: GdwAwsLambda.getRegion(secrets)
+        };
+
+        if (source.credentials) {
+
+            serviceOptions.credentials = source.credentials;
+
+        }
+
+        return serviceOptions;
+    }
+
+    private getCredentialSource (secrets: LambdaSecrets): CredentialSource {
+
+        let key = JSON.stringify([
+            secrets.profile,
+            secrets.accessKeyId,
+            secrets.roleArn,
+            secrets.externalId,
+            secrets.mfaSerial
+        ]);
+
+        if (!this.credentialSources[key]) {
+
+            this.credentialSources[key] = CredentialChain.create(
+                secrets,
+                GdwAwsLambda.FILE_LAMBDA_SECRETS,
+                this.mfaToken
+            );
+
+        }
+
+        return this.credentialSources[key];
+    }
+
+    private checkLambda (
+        options?: DeployOptions
+    ): Promise<string|GetFunctionResponse> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.getFunction(
+                {
+                    FunctionName: this.lambdaCfg.FunctionName
+                },
+                (err, data) => {
+
+                    if (err) {
+
+                        if (err.code === 'ResourceNotFoundException') {
+
+                            if (options && options.create) {
+
+                                resolve(GdwAwsLambda.ERR_LAMBDA_NOT_FOUND);
+
+                            } else {
+
+                                reject(new FunctionNotFoundError(
+                                    GdwAwsLambda.ERR_LAMBDA_NOT_FOUND,
+                                    this.lambdaCfg.FunctionName,
+                                    err
+                                ));
+
+                            }
+
+                        } else {
+
+                            reject(new AwsApiError('getFunction', err));
+
+                        }
+
+                    } else  {
+
+                        // Store Lambda information
+                        this.lambdaGetInfo = data;
+
+                        resolve(this.lambdaGetInfo);
+
+                    }
+
+                }
+            );
+        });
+    }
+
+    private checkLambdaConfig (config: GetFunctionResponse): boolean {
+
+        return (
+            Util.isObject(config) &&
+            Util.isObject(config.Configuration) &&
+            config.Configuration.FunctionName === this.lambdaCfg.FunctionName &&
+            this.diffLambdaConfig(config).length === 0
+        );
+    }
+
+    /**
+     * Lists the differences between the local configuration
+     * and the configuration of the deployed function
+     *
+     * @param {GetFunctionResponse} [info] Omitted for a new function
+     * @returns {Array.<ConfigChange>}
+     */
+    private diffLambdaConfig (
+        info?: GetFunctionResponse
+    ): Array<ConfigChange> {
+
+        let config: any = info && info.Configuration || {};
+        let remote: any = Object.assign({
+            Description: config.Description,
+            Handler: config.Handler,
+            Runtime: config.Runtime,
+            MemorySize: config.MemorySize,
+            Timeout: config.Timeout,
+            Role: config.Role
+        }, GdwAwsLambda.getComparableConfig(config));
+        let local: any = Object.assign({
+            Description: this.lambdaCfg.Description,
+            Handler: this.lambdaCfg.Handler,
+            Runtime: this.lambdaCfg.Runtime,
+            MemorySize: this.lambdaCfg.MemorySize,
+            Timeout: this.lambdaCfg.Timeout,
+            Role: this.lambdaSecrets.Role
+        }, GdwAwsLambda.getComparableConfig(this.lambdaCfg));
+
+        // Reserved concurrency and tags set outside the config,
+        // like by the console, are only managed when declared
+        if (this.lambdaCfg.ReservedConcurrentExecutions !== undefined) {
+
+            remote.ReservedConcurrentExecutions = info && info.Concurrency ?
+                info.Concurrency.ReservedConcurrentExecutions : undefined;
+            local.ReservedConcurrentExecutions =
+                this.lambdaCfg.ReservedConcurrentExecutions;
+
+        }
+
+        let changes: Array<ConfigChange> = [];
+
+        Object.keys(local).forEach((field) => {
+
+            if (JSON.stringify(remote[field]) !==
+                JSON.stringify(local[field])) {
+
+                changes.push({
+                    field: field,
+                    action: remote[field] === undefined ? 'add'
+                        : local[field] === undefined ? 'remove'
+                        : 'update',
+                    remote: remote[field],
+                    local: local[field]
+                });
+
+            }
+
+        });
+
+        let remoteEnvironment: EnvironmentResponse = config.Environment;
+        let localEnvironment = this.lambdaSecrets.Environment;
+
+        changes = changes.concat(GdwAwsLambda.diffMap(
+            'Environment.Variables.',
+            Util.isObject(remoteEnvironment) ?
+                remoteEnvironment.Variables : undefined,
+            Util.isObject(localEnvironment) ?
+                localEnvironment.Variables : undefined,
+            true
+        ));
+
+        if (this.lambdaCfg.Tags === undefined) return changes;
+
+        return changes.concat(GdwAwsLambda.diffMap(
+            'Tags.',
+            GdwAwsLambda.getUserTags(info ? info.Tags : undefined),
+            GdwAwsLambda.getUserTags(this.lambdaCfg.Tags),
+            false
+        ));
+    }
+
+    /**
+     * @param {?Object.<string, string>} tags
+     * @returns {Object.<string, string>} The tags without the aws: ones,
+     *                                    which only AWS can change
+     */
+    private static getUserTags (
+        tags: {[key: string]: string} | null | undefined
+    ): {[key: string]: string} {
+
+        let result: {[key: string]: string} = {};
+
+        Object.keys(tags || {}).forEach((key) => {
+
+            if (!/^aws:/.test(key)) result[key] = (tags || {})[key];
+
+        });
+
+        return result;
+    }
+
+    /**
+     * Compares two maps, like environment variables or tags
+     *
+     * @param {string} prefix Prepended to the key for the field name
+     * @param {?Object.<string, string>} remote
+     * @param {?Object.<string, string>} local
+     * @param {boolean} mask Hide the values
+     * @returns {Array.<ConfigChange>}
+     */
+    private static diffMap (
+        prefix: string,
+        remote: {[key: string]: string} | null | undefined,
+        local: {[key: string]: string} | null | undefined,
+        mask: boolean
+    ): Array<ConfigChange> {
+
+        let remoteVars: {[key: string]: string} =
+            Util.isObject(remote) ? remote : {};
+        let localVars: {[key: string]: string} =
+            Util.isObject(local) ? local : {};
+
+        let keys = Object.keys(remoteVars);
+
+        Object.keys(localVars).forEach((key) => {
+
+            if (keys.indexOf(key) === -1) keys.push(key);
+
+        });
+
+        keys.sort();
+
+        let changes: Array<ConfigChange> = [];
+
+        keys.forEach((key) => {
+
+            let field = prefix + key;
+            let remoteValue = mask ? GdwAwsLambda.MASK : remoteVars[key];
+            let localValue = mask ? GdwAwsLambda.MASK : localVars[key];
+
+            if (!remoteVars.hasOwnProperty(key)) {
+
+                changes.push({
+                    field: field,
+                    action: 'add',
+                    local: localValue
+                });
+
+            } else if (!localVars.hasOwnProperty(key)) {
+
+                changes.push({
+                    field: field,
+                    action: 'remove',
+                    remote: remoteValue
+                });
+
+            } else if (remoteVars[key] !== localVars[key]) {
+
+                changes.push({
+                    field: field,
+                    action: 'update',
+                    remote: remoteValue,
+                    local: localValue
+                });
+
+            }
+
+        });
+
+        return changes;
+    }
+
+    private createLambdaFunction () {
+
+        return this.readArchive()
+            .then(() => {
+
+                return this.getFunctionCode();
+
+            })
+            .then((code) => {
+
+                let params: CreateFunctionRequest = {
+                    FunctionName: this.lambdaCfg.FunctionName,
+                    Description: this.lambdaCfg.Description,
+                    Handler: this.lambdaCfg.Handler,
+                    Runtime: this.lambdaCfg.Runtime,
+                    MemorySize: this.lambdaCfg.MemorySize,
+                    Timeout: this.lambdaCfg.Timeout,
+                    Role: this.lambdaSecrets.Role,
+                    Environment: this.lambdaSecrets.Environment,
+                    VpcConfig: this.lambdaCfg.VpcConfig,
+                    DeadLetterConfig: this.lambdaCfg.DeadLetterConfig,
+                    TracingConfig: this.lambdaCfg.TracingConfig,
+                    KMSKeyArn: this.lambdaCfg.KMSKeyArn,
+                    Layers: this.lambdaCfg.Layers,
+                    Tags: this.lambdaCfg.Tags,
+                    Code: code
+                };
+
+                return this.createFunctionWhenRoleReady(params, 0)
+                    .then(() => {
+
+                        return this.updateLambdaConcurrency();
+
+                    })
+                    .then(
+                        () => {
+
+                            return 'Lambda function (' +
+                                this.lambdaCfg.FunctionName + ') created';
+
+                        }
+                    );
+
+            });
+
+    }
+
+    /**
+     * Retries creating the function while AWS Lambda
+     * cannot assume a role that was just created
+     *
+     * @param {CreateFunctionRequest} params
+     * @param {number} attempt
+     * @returns {Promise.<FunctionConfiguration>}
+     */
+    private createFunctionWhenRoleReady (
+        params: CreateFunctionRequest,
+        attempt: number
+    ): Promise<FunctionConfiguration> {
+
+        return this.createFunction(params)
+            .catch((err) => {
+
+                if (attempt < GdwAwsLambda.ROLE_RETRIES &&
+                    err instanceof AwsApiError &&
+                    err.awsCode === 'InvalidParameterValueException' &&
+                    /role/i.test(err.message)) {
+
+                    return Util.delay(GdwAwsLambda.ROLE_RETRY_DELAY)
+                        .then(() => {
+
+                            return this.createFunctionWhenRoleReady(
+                                params,
+                                attempt + 1
+                            );
+
+                        });
+
+                }
+
+                throw err;
+
+            });
+
+    }
+
+    /**
+     * Waits until the function is created or updated,
+     * AWS Lambda rejects other changes until then
+     *
+     * @param {string} [qualifier] Version, $LATEST when omitted
+     * @param {number} [attempt]
+     * @returns {Promise}
+     */
+    private waitUntilReady (
+        qualifier?: string,
+        attempt?: number
+    ): Promise<void> {
+
+        let name = this.lambdaCfg.FunctionName;
+        let tries = attempt || 0;
+
+        return this.getFunctionConfiguration(name, qualifier)
+            .then((config) => {
+
+                // Not in the typings of the minimum aws-sdk version
+                let state: string = (<any> config).State || 'Active';
+                let update: string =
+                    (<any> config).LastUpdateStatus || 'Successful';
+
+                if (state === 'Failed' || update === 'Failed') {
+
+                    // The configuration is left out, it holds the secrets
+                    let reason = state === 'Failed' ?
+                        (<any> config).StateReason :
+                        (<any> config).LastUpdateStatusReason;
+
+                    throw new GaldError(
+                        GaldError.FUNCTION_STATE,
+                        `Lambda function (${name}) ` +
+                        (state === 'Failed' ? 'failed' : 'update failed') +
+                        (reason ? ': ' + reason : '')
+                    );
+
+                }
+
+                if (state !== 'Pending' && update !== 'InProgress') {
+
+                    return;
+
+                }
+
+                if (tries >= GdwAwsLambda.READY_RETRIES) {
+
+                    throw new GaldError(
+                        GaldError.FUNCTION_STATE,
+                        `Lambda function (${name}) is still ` +
+                        (state === 'Pending' ? 'pending' : 'updating')
+                    );
+
+                }
+
+                return Util.delay(GdwAwsLambda.READY_DELAY)
+                    .then(() => this.waitUntilReady(qualifier, tries + 1));
+
+            });
+
+    }
+
+    private updateLambdaConfig (): Promise<string> {
+
+        let params: UpdateFunctionConfigurationRequest = {
+            FunctionName: this.lambdaCfg.FunctionName,
+            Description: this.lambdaCfg.Description,
+            Handler: this.lambdaCfg.Handler,
+            Runtime: this.lambdaCfg.Runtime,
+            MemorySize: this.lambdaCfg.MemorySize,
+            Timeout: this.lambdaCfg.Timeout,
+            Role: this.lambdaSecrets.Role,
+            Environment: this.lambdaSecrets.Environment,
+            VpcConfig: this.lambdaCfg.VpcConfig || {
+                SubnetIds: [],
+                SecurityGroupIds: []
+            },
+            DeadLetterConfig: this.lambdaCfg.DeadLetterConfig || {
+                TargetArn: ''
+            },
+            TracingConfig: this.lambdaCfg.TracingConfig || {
+                Mode: 'PassThrough'
+            },
+            KMSKeyArn: this.lambdaCfg.KMSKeyArn || '',
+            Layers: this.lambdaCfg.Layers || []
+        };
+
+        return this.updateConfig(params)
+            .then(() => this.waitUntilReady())
+            .then(() => {
+
+                return Promise.all([
+                    this.updateLambdaTags(),
+                    this.updateLambdaConcurrency()
+                ]);
+
+            })
+            .then(
+                () => {
+
+                    return 'Lambda function (' +
+                        this.lambdaCfg.FunctionName +
+                        ') configuration updated';
+
+                }
+            );
+
+    }
+
+    /**
+     * Tags are not part of the configuration,
+     * they are added and removed on their own
+     *
+     * @returns {Promise}
+     */
+    private updateLambdaTags (): Promise<any> {
+
+        if (this.lambdaCfg.Tags === undefined) return Promise.resolve();
+
+        let info = this.lambdaGetInfo;
+        let arn = info.Configuration && info.Configuration.FunctionArn || '';
+        let remote = GdwAwsLambda.getUserTags(info.Tags);
+        let local = GdwAwsLambda.getUserTags(this.lambdaCfg.Tags);
+
+        let removed = Object.keys(remote).filter((key) => {
+
+            return !local.hasOwnProperty(key);
+
+        });
+        let changed: {[key: string]: string} = {};
+
+        Object.keys(local).forEach((key) => {
+
+            if (remote[key] !== local[key]) changed[key] = local[key];
+
+        });
+
+        let promises: Array<Promise<{}>> = [];
+
+        if (removed.length > 0) {
+
+            promises.push(this.untagResource({
+                Resource: arn,
+                TagKeys: removed
+            }));
+
+        }
+
+        if (Object.keys(changed).length > 0) {
+
+            promises.push(this.tagResource({
+                Resource: arn,
+                Tags: changed
+            }));
+
+        }
+
+        return Promise.all(promises);
+
+    }
+
+    /**
+     * Reserved concurrency is set apart from the configuration
+     *
+     * @returns {Promise}
+     */
+    private updateLambdaConcurrency (): Promise<any> {
+
+        let info = this.lambdaGetInfo;
+        let remote = info && info.Concurrency ?
+            info.Concurrency.ReservedConcurrentExecutions : undefined;
+        let local = this.lambdaCfg.ReservedConcurrentExecutions;
+
+        if (local === undefined || remote === local) {
+
+            return Promise.resolve();
+
+        }
+
+        return this.putFunctionConcurrency({
+            FunctionName: this.lambdaCfg.FunctionName,
+            ReservedConcurrentExecutions: local
+        });
+
+    }
+
+    /**
+     * Creates the declared event source mappings that are missing,
+     * updates the changed ones and, when pruning,
+     * deletes the ones that are no longer declared.
+     * The mappings invoke the alias when one is configured.
+     *
+     * @param {boolean} prune
+     * @returns {Promise.<Array.<string>>}
+     */
+    private updateEventSources (prune: boolean): Promise<Array<string>> {
+
+        let declared = this.lambdaCfg.eventSources || [];
+        let functionName = this.lambdaCfg.FunctionName +
+            (Util.isNEString(this.lambdaCfg.alias) ?
+                ':' + this.lambdaCfg.alias : '');
+
+        return this.listEventSourceMappings(functionName)
+            .then((mappings) => {
+
+                let messages: Array<string> = [];
+
+                let promises = declared.map((source) => {
+
+                    let mapping = mappings.filter((item) => {
+
+                        return item.EventSourceArn === source.EventSourceArn;
+
+                    })[0];
+
+                    let enabled = source.Enabled !== false;
+
+                    if (!mapping) {
+
+                        return this.createEventSourceMapping({
+                            FunctionName: functionName,
+                            EventSourceArn: source.EventSourceArn,
+                            BatchSize: source.BatchSize,
+                            StartingPosition: source.StartingPosition,
+                            Enabled: enabled
+                        })
+                            .then(() => {
+
+                                messages.push('Event source ' +
+                                    source.EventSourceArn + ' mapped');
+
+                            });
+
+                    }
+
+                    let remoteEnabled = mapping.State === 'Enabled' ||
+                        mapping.State === 'Enabling';
+
+                    if (remoteEnabled === enabled &&
+                        (
+                            source.BatchSize === undefined ||
+                            source.BatchSize === mapping.BatchSize
+                        )) {
+
+                        return Promise.resolve();
+
+                    }
+
+                    return this.updateEventSourceMapping({
+                        UUID: mapping.UUID || '',
+                        BatchSize: source.BatchSize,
+                        Enabled: enabled
+                    })
+                        .then(() => {
+
+                            messages.push('Event source ' +
+                                source.EventSourceArn + ' mapping updated');
+
+                        });
+
+                });
+
+                mappings.forEach((mapping) => {
+
+                    let arn = mapping.EventSourceArn || '';
+
+                    if (declared.some((source) => {
+
+                        return source.EventSourceArn === arn;
+
+                    })) {
+
+                        return;
+                    }
+
+                    if (!prune) {
+
+                        messages.push('Event source ' + arn +
+                            ' is mapped but not declared');
+
+                        return;
+                    }
+
+                    promises.push(
+                        this.deleteEventSourceMapping(mapping.UUID || '')
+                            .then(() => {
+
+                                messages.push('Event source ' + arn +
+                                    ' mapping deleted');
+
+                            })
+                    );
+
+                });
+
+                return Promise.all(promises)
+                    .then(() => {
+
+                        return messages.length > 0 ? messages
+                            : ['Event source mappings up-to-date'];
+
+                    });
+
+            });
+
+    }
+
+    /**
+     * Adds the declared permissions missing from the resource policy
+     * and removes the statements that were added for permissions
+     * that are no longer declared. The statement ID is derived from
+     * the permission, other statements are left alone.
+     *
+     * @returns {Promise.<Array.<string>>}
+     */
+    private updatePermissions (): Promise<Array<string>> {
+
+        let declared = this.lambdaCfg.permissions || [];
+        let qualifier = Util.isNEString(this.lambdaCfg.alias) ?
+            this.lambdaCfg.alias : undefined;
+        let statementIds = declared.map(GdwAwsLambda.getStatementId);
+
+        return this.getPolicyStatementIds(qualifier)
+            .then((existing) => {
+
+                let messages: Array<string> = [];
+                // Changes to the policy are made one at a time
+                let changes: Array<() => Promise<void>> = [];
+
+                existing.forEach((statementId) => {
+
+                    if (statementId.indexOf(
+                            GdwAwsLambda.STATEMENT_ID_PREFIX) !== 0 ||
+                        statementIds.indexOf(statementId) !== -1) {
+
+                        return;
+                    }
+
+                    changes.push(() => this.removePermission({
+                        FunctionName: this.lambdaCfg.FunctionName,
+                        StatementId: statementId,
+                        Qualifier: qualifier
+                    })
+                        .then(() => {
+
+                            messages.push(`Permission ${statementId} removed`);
+
+                        }));
+
+                });
+
+                declared.forEach((permission, index) => {
+
+                    if (existing.indexOf(statementIds[index]) !== -1) return;
+
+                    changes.push(() => this.addPermission({
+                        FunctionName: this.lambdaCfg.FunctionName,
+                        StatementId: statementIds[index],
+                        Action: permission.Action ||
+                            GdwAwsLambda.DEFAULT_PERMISSION_ACTION,
+                        Principal: permission.Principal,
+                        SourceArn: permission.SourceArn,
+                        SourceAccount: permission.SourceAccount,
+                        Qualifier: qualifier
+                    })
+                        .then(() => {
+
+                            messages.push('Permission ' + statementIds[index] +
+                                ' added for ' + permission.Principal);
+
+                        }));
+
+                });
+
+                return Util.mapLimit(changes, 1, (change) => change())
+                    .then(() => {
+
+                        return messages.length > 0 ? messages
+                            : ['Permissions up-to-date'];
+
+                    });
+
+            });
+
+    }
+
+    private updateLambdaFunctionCode (): Promise<string> {
+
+        return this.readArchive()
+            .then((): Promise<FunctionConfiguration> => {
+
+                if (this.useS3Upload()) {
+
+                    // Compare before uploading, CodeSha256 is the
+                    // hash of the archive
+                    return Promise.resolve({
+                        CodeSha256: GdwAwsLambda
+                            .getCodeSha256(this.lambdaBuffer)
+                    });
+
+                }
+
+                return this.updateFunctionCode({
+                    FunctionName: this.lambdaCfg.FunctionName,
+                    ZipFile: this.lambdaBuffer,
+                    DryRun: true
+                });
+
+            })
+            .then((result: FunctionConfiguration) => {
+
+                if (this.lambdaGetInfo && this.lambdaGetInfo.Configuration) {
+
+                    if (result.CodeSha256 !==
+                        this.lambdaGetInfo.Configuration.CodeSha256) {
+
+                        return this.getFunctionCode()
+                            .then((code) => {
+
+                                return this.updateFunctionCode(Object.assign({
+                                    FunctionName: this.lambdaCfg.FunctionName,
+                                    DryRun: false
+                                }, code));
+
+                            })
+                            .then(
+                                () => {
+
+                                    return 'Lambda function (' +
+                                        this.lambdaCfg.FunctionName +
+                                        ') code has been updated';
+
+                                }
+                            );
+
+                    } else {
+
+                        return GdwAwsLambda.INFO_FUNCTION_CODE_UO_TO_DATE;
+
+                    }
+
+                } else {
+
+                    throw new AwsApiError(
+                        'getFunction',
+                        undefined,
+                        'Invalid Lambda function information'
+                    );
+
+                }
+
+            });
+
+    }
+
+    /**
+     * Whether the archive is uploaded through S3
+     *
+     * @returns {boolean}
+     */
+    private useS3Upload (): boolean {
+
+        if (Util.isNEString(this.lambdaCfg.s3Bucket)) return true;
+
+        if (this.lambdaBuffer.length > GdwAwsLambda.ZIP_FILE_LIMIT) {
+
+            throw new ArchiveError(
+                'Archive is too large to upload directly, ' +
+                'set s3Bucket to upload it through S3',
+                {
+                    file: this.lambdaCfg.archiveName,
+                    field: 's3Bucket'
+                }
+            );
+
+        }
+
+        return false;
+    }
+
+    /**
+     * Creates the code of a create or update request,
+     * uploading the archive to S3 when needed
+     *
+     * @returns {Promise.<FunctionCode>}
+     */
+    private getFunctionCode (): Promise<FunctionCode> {
+
+        if (!this.useS3Upload()) {
+
+            return Promise.resolve({
+                ZipFile: this.lambdaBuffer
+            });
+
+        }
+
+        let bucket = this.lambdaCfg.s3Bucket || '';
+        let key = (this.lambdaCfg.s3KeyPrefix || '') +
+            this.lambdaCfg.FunctionName + '/' +
+            crypto.createHash('sha256').update(this.lambdaBuffer)
+                .digest('hex') + '.zip';
+
+        return this.existsObject(bucket, key)
+            .then((exists): Promise<any> | undefined => {
+
+                return exists ? undefined
+                    : this.uploadObject(bucket, key, this.lambdaBuffer);
+
+            })
+            .then(() => {
+
+                return {
+                    S3Bucket: bucket,
+                    S3Key: key
+                };
+
+            });
+
+    }
+
+    /**
+     * Publishes $LATEST as a new version, unless it equals
+     * the last published version, and points the alias at it
+     *
+     * @param {Function} log Reports the progress of traffic shifting
+     * @returns {Promise.<Array.<string>>}
+     */
+    private publishLambdaVersion (
+        log: (message: string) => void
+    ): Promise<Array<string>> {
+
+        let aliasName = this.lambdaCfg.alias;
+
+        return this.waitUntilReady()
+            .then(() => {
+
+                return this.publishVersion({
+                    FunctionName: this.lambdaCfg.FunctionName,
+                    CodeSha256: GdwAwsLambda.getCodeSha256(this.lambdaBuffer)
+                });
+
+            })
+            .then((result) => {
+
+                let version = result.Version || '';
+                let messages = [`Version ${version} published`];
+
+                if (!Util.isNEString(aliasName)) {
+
+                    return messages;
+
+                }
+
+                // A version just published can still be pending
+                return this.waitUntilReady(version)
+                    .then(() => this.getAlias(aliasName || ''))
+                    .then((alias) => {
+
+                        let name = aliasName || '';
+
+                        if (alias && alias.FunctionVersion !== version &&
+                            this.lambdaCfg.trafficShifting) {
+
+                            return this.shiftTraffic(name, version, alias, log);
+
+                        }
+
+                        return this.pointAlias(name, version, alias);
+
+                    })
+                    .then((message) => {
+
+                        return messages.concat(message);
+
+                    });
+
+            });
+
+    }
+
+    /**
+     * Creates the alias or moves it to the version
+     *
+     * @param {string} name
+     * @param {string} version
+     * @param {?AliasConfiguration} alias Current alias, null when missing
+     * @returns {Promise.<string>}
+     */
+    private pointAlias (
+        name: string,
+        version: string,
+        alias: AliasConfiguration | null
+    ): Promise<string> {
+
+        if (!alias) {
+
+            return this.createAlias({
+                FunctionName: this.lambdaCfg.FunctionName,
+                Name: name,
+                FunctionVersion: version
+            })
+                .then(() => {
+
+                    return `Alias ${name} created for version ${version}`;
+
+                });
+
+        }
+
+        let previous = alias.FunctionVersion;
+
+        if (previous === version) {
+
+            return Promise.resolve(
+                `Alias ${name} already points to version ${version}`
+            );
+
+        }
+
+        return this.updateAlias({
+            FunctionName: this.lambdaCfg.FunctionName,
+            Name: name,
+            FunctionVersion: version,
+            RoutingConfig: {
+                AdditionalVersionWeights: {}
+            }
+        })
+            .then(() => {
+
+                return `Alias ${name} moved from version ${previous} ` +
+                    `to ${version}`;
+
+            });
+
+    }
+
+    /**
+     * Moves traffic of the alias to the version in steps,
+     * using weighted routing. The health check runs before every step,
+     * on failure the routing of the alias is restored.
+     *
+     * @param {string} name
+     * @param {string} version
+     * @param {AliasConfiguration} alias
+     * @param {Function} log
+     * @returns {Promise.<string>}
+     */
+    private shiftTraffic (
+        name: string,
+        version: string,
+        alias: AliasConfiguration,
+        log: (message: string) => void
+    ): Promise<string> {
+
+        let shifting = <TrafficShiftingConfig> this.lambdaCfg.trafficShifting;
+        let previous = alias.FunctionVersion || '';
+        let weights = GdwAwsLambda.getTrafficWeights(shifting);
+
+        return this.readHealthCheckTests(shifting)
+            .then((tests) => {
+
+                let steps = Promise.resolve();
+
+                weights.forEach((weight, index) => {
+
+                    steps = steps
+                        .then(() => {
+
+                            return index > 0 ?
+                                Util.delay(shifting.interval * 60000)
+                                : undefined;
+
+                        })
+                        .then(() => {
+
+                            return this.checkHealth(tests, version);
+
+                        })
+                        .then(() => {
+
+                            let versionWeights: {[key: string]: number} = {};
+
+                            if (weight < 100) {
+
+                                versionWeights[version] = weight / 100;
+
+                            }
+
+                            return this.updateAlias({
+                                FunctionName: this.lambdaCfg.FunctionName,
+                                Name: name,
+                                FunctionVersion: weight < 100 ?
+                                    previous : version,
+                                RoutingConfig: {
+                                    AdditionalVersionWeights: versionWeights
+                                }
+                            });
+
+                        })
+                        .then(() => {
+
+                            log(`Alias ${name} routes ${weight}% ` +
+                                `to version ${version}`);
+
+                        });
+
+                });
+
+                return steps;
+
+            })
+            .then(
+                () => {
+
+                    return `Alias ${name} moved from version ${previous} ` +
+                        `to ${version}`;
+
+                },
+                (error) => {
+
+                    return this.updateAlias({
+                        FunctionName: this.lambdaCfg.FunctionName,
+                        Name: name,
+                        FunctionVersion: previous,
+                        RoutingConfig: alias.RoutingConfig || {
+                            AdditionalVersionWeights: {}
+                        }
+                    })
+                        .then(
+                            () => {
+
+                                log(`Alias ${name} restored ` +
+                                    `to version ${previous}`);
+
+                                throw error;
+
+                            },
+                            () => {
+
+                                throw new GaldError(
+                                    GaldError.HEALTH_CHECK,
+                                    `Failed to restore alias ${name}, ` +
+                                    `after: ${Assert.getMessage(error)}`,
+                                    {field: 'alias', cause: error}
+                                );
+
+                            }
+                        );
+
+                }
+            );
+
+    }
+
+    /**
+     * Reads the tests the health check invokes
+     *
+     * @param {TrafficShiftingConfig} shifting
+     * @returns {Promise.<Array.<LambdaTest>>}
+     */
+    private readHealthCheckTests (
+        shifting: TrafficShiftingConfig
+    ): Promise<Array<LambdaTest>> {
+
+        let names = shifting.healthCheck || [];
+
+        if (names.length === 0) {
+
+            return Promise.resolve([]);
+
+        }
+
+        return this.readObject(
+            GdwAwsLambda.FILE_LAMBDA_TESTS,
+            GdwAwsLambda.FILE_LAMBDA_TESTS
+        ).then((tests: Array<LambdaTest>) => {
+
+            return names.map((name) => {
+
+                let found = tests.filter((test) => test.name === name);
+
+                if (found.length === 0) {
+
+                    throw new ConfigError(
+                        `Health check test ${name} not found`,
+                        {
+                            file: GdwAwsLambda.FILE_LAMBDA_TESTS,
+                            field: 'trafficShifting.healthCheck'
+                        }
+                    );
+
+                }
+
+                return found[0];
+
+            });
+
+        });
+
+    }
+
+    /**
+     * Invokes the tests on the version and rejects when one fails
+     *
+     * @param {Array.<LambdaTest>} tests
+     * @param {string} version
+     * @returns {Promise}
+     */
+    private checkHealth (
+        tests: Array<LambdaTest>,
+        version: string
+    ): Promise<void> {
+
+        return Util.mapLimit(tests, 1, (test) => {
+
+            return this.runRemoteTest(test, version);
+
+        })
+            .then((results) => {
+
+                let failures: Array<string> = [];
+
+                results.forEach((test, testIndex) => {
+
+                    test.events.forEach((event) => {
+
+                        event.failures.forEach((failure) => {
+
+                            failures.push((test.name || 'Test ' + testIndex) +
+                                ' event ' + event.index + ': ' + failure);
+
+                        });
+
+                    });
+
+                });
+
+                if (failures.length > 0) {
+
+                    throw new GaldError(
+                        GaldError.HEALTH_CHECK,
+                        GdwAwsLambda.ERR_HEALTH_CHECK + ' for version ' +
+                        version + os.EOL + failures.join(os.EOL)
+                    );
+
+                }
+
+            });
+
+    }
+
+    //region AWS Lambda Promise wrappers
+
+    private createFunction (
+        params: CreateFunctionRequest
+    ): Promise<FunctionConfiguration> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.createFunction(
+                params,
+                (err, data) => {
+
+                    err ? reject(new AwsApiError('createFunction', err))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    private updateConfig (
+        params: UpdateFunctionConfigurationRequest
+    ): Promise<FunctionConfiguration> {
+
+        return new Promise((resolve, reject) => {
+
+            // this.lambda.updateFunctionConfiguration({
+            //     FunctionName: this.lambdaCfg.FunctionName,
+            //     Description: this.lambdaCfg.Description,
+            //     Handler: this.lambdaCfg.Handler,
+            //     Runtime: this.lambdaCfg.Runtime,
+            //     MemorySize: this.lambdaCfg.MemorySize,
+            //     Timeout: this.lambdaCfg.Timeout,
+            //     Role: this.lambdaSecrets.Role,
+            //     Environment: this.lambdaSecrets.Environment
+            // }, (err, data) => {
+            //
+            //     err ? reject('Error updating function configuration')
+            //         : resolve(data);
+            //
+            // })
+
+            this.lambda.updateFunctionConfiguration(
+                params,
+                (err, data) => {
+
+                    err ? reject(new AwsApiError(
+                        'updateFunctionConfiguration',
+                        err
+                    ))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    private updateFunctionCode (
+        params: UpdateFunctionCodeRequest
+    ): Promise<FunctionConfiguration> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.updateFunctionCode(
+                params,
+                (err, data) => {
+
+                    err ? reject(new AwsApiError('updateFunctionCode', err))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    private getFunction (functionName: string): Promise<GetFunctionResponse> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.getFunction({
+                FunctionName: functionName
+            }, (err, data) => {
+
+                if (err && err.code === 'ResourceNotFoundException') {
+
+                    reject(new FunctionNotFoundError(
+                        GdwAwsLambda.ERR_LAMBDA_NOT_FOUND,
+                        functionName,
+                        err
+                    ));
+
+                } else {
+
+                    err ? reject(new AwsApiError('getFunction', err))
+                        : resolve(data);
+
+                }
+
+            });
+
+        });
+
+    }
+
+    private getFunctionConfiguration (
+        functionName: string,
+        qualifier?: string
+    ): Promise<FunctionConfiguration> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.getFunctionConfiguration({
+                FunctionName: functionName,
+                Qualifier: qualifier
+            }, (err, data) => {
+
+                err ? reject(new AwsApiError('getFunctionConfiguration', err))
+                    : resolve(data);
+
+            });
+
+        });
+
+    }
+
+    private tagResource (params: TagResourceRequest): Promise<{}> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.tagResource(
+                params,
+                (err, data) => {
+
+                    err ? reject(new AwsApiError('tagResource', err))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    private untagResource (params: UntagResourceRequest): Promise<{}> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.untagResource(
+                params,
+                (err, data) => {
+
+                    err ? reject(new AwsApiError('untagResource', err))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    private putFunctionConcurrency (
+        params: PutFunctionConcurrencyRequest
+    ): Promise<Concurrency> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.putFunctionConcurrency(
+                params,
+                (err, data) => {
+
+                    err ? reject(new AwsApiError('putFunctionConcurrency', err))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    /**
+     * Lists all event source mappings, following the pagination markers
+     *
+     * @param {string} functionName
+     * @param {string} [marker]
+     * @returns {Promise.<Array.<EventSourceMappingConfiguration>>}
+     */
+    private listEventSourceMappings (
+        functionName: string,
+        marker?: string
+    ): Promise<Array<EventSourceMappingConfiguration>> {
+
+        return new Promise<ListEventSourceMappingsResponse>(
+            (resolve, reject) => {
+
+                this.lambda.listEventSourceMappings(
+                    {
+                        FunctionName: functionName,
+                        Marker: marker
+                    },
+                    (err, data) => {
+
+                        err ? reject(new AwsApiError(
+                            'listEventSourceMappings',
+                            err
+                        ))
+                            : resolve(data);
+
+                    }
+                );
+
+            }
+        )
+            .then((data) => {
+
+                let mappings = data.EventSourceMappings || [];
+
+                return data.NextMarker ?
+                    this.listEventSourceMappings(functionName, data.NextMarker)
+                        .then((more) => mappings.concat(more))
+                    : mappings;
+
+            });
+
+    }
+
+    private createEventSourceMapping (
+        params: CreateEventSourceMappingRequest
+    ): Promise<EventSourceMappingConfiguration> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.createEventSourceMapping(
+                params,
+                (err, data) => {
+
+                    err ? reject(new AwsApiError(
+                        'createEventSourceMapping',
+                        err
+                    ))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    private updateEventSourceMapping (
+        params: UpdateEventSourceMappingRequest
+    ): Promise<EventSourceMappingConfiguration> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.updateEventSourceMapping(
+                params,
+                (err, data) => {
+
+                    err ? reject(new AwsApiError(
+                        'updateEventSourceMapping',
+                        err
+                    ))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    private deleteEventSourceMapping (
+        uuid: string
+    ): Promise<EventSourceMappingConfiguration> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.deleteEventSourceMapping(
+                {
+                    UUID: uuid
+                },
+                (err, data) => {
+
+                    err ? reject(new AwsApiError(
+                        'deleteEventSourceMapping',
+                        err
+                    ))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    /**
+     * Lists the statement IDs of the resource policy
+     *
+     * @param {string} [qualifier]
+     * @returns {Promise.<Array.<string>>} Empty without a policy
+     */
+    private getPolicyStatementIds (
+        qualifier?: string
+    ): Promise<Array<string>> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.getPolicy(
+                {
+                    FunctionName: this.lambdaCfg.FunctionName,
+                    Qualifier: qualifier
+                },
+                (err, data) => {
+
+                    if (err) {
+
+                        err.code === 'ResourceNotFoundException' ?
+                            resolve([])
+                            : reject(new AwsApiError('getPolicy', err));
+
+                        return;
+                    }
+
+                    try {
+
+                        let policy = JSON.parse(data.Policy || '{}');
+                        let statements = Array.isArray(policy.Statement) ?
+                            policy.Statement : [];
+
+                        resolve(statements.map((statement: any) => {
+
+                            return String(statement.Sid);
+
+                        }));
+
+                    } catch (e) {
+
+                        reject(new AwsApiError(
+                            'getPolicy',
+                            e,
+                            'Invalid resource policy'
+                        ));
+
+                    }
+
+                }
+            );
+
+        });
+
+    }
+
+    private addPermission (params: AddPermissionRequest): Promise<void> {
+
+        return new Promise<void>((resolve, reject) => {
+
+            this.lambda.addPermission(
+                params,
+                (err) => {
+
+                    err ? reject(new AwsApiError('addPermission', err))
+                        : resolve();
+
+                }
+            );
+
+        });
+
+    }
+
+    private removePermission (
+        params: RemovePermissionRequest
+    ): Promise<void> {
+
+        return new Promise<void>((resolve, reject) => {
+
+            this.lambda.removePermission(
+                params,
+                (err) => {
+
+                    err ? reject(new AwsApiError('removePermission', err))
+                        : resolve();
+
+                }
+            );
+
+        });
+
+    }
+
+    private publishVersion (
+        params: PublishVersionRequest
+    ): Promise<FunctionConfiguration> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.publishVersion(
+                params,
+                (err, data) => {
+
+                    err ? reject(new AwsApiError('publishVersion', err))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    /**
+     * @param {string} name
+     * @returns {Promise.<?AliasConfiguration>} Null when not found
+     */
+    private getAlias (name: string): Promise<AliasConfiguration | null> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.getAlias(
+                {
+                    FunctionName: this.lambdaCfg.FunctionName,
+                    Name: name
+                },
+                (err, data) => {
+
+                    if (err) {
+
+                        err.code === 'ResourceNotFoundException' ?
+                            resolve(null)
+                            : reject(new AwsApiError('getAlias', err));
+
+                    } else {
+
+                        resolve(data);
+
+                    }
+
+                }
+            );
+
+        });
+
+    }
+
+    private createAlias (
+        params: CreateAliasRequest
+    ): Promise<AliasConfiguration> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.createAlias(
+                params,
+                (err, data) => {
+
+                    err ? reject(new AwsApiError('createAlias', err))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    private updateAlias (
+        params: UpdateAliasRequest
+    ): Promise<AliasConfiguration> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.updateAlias(
+                params,
+                (err, data) => {
+
+                    err ? reject(new AwsApiError('updateAlias', err))
+                        : resolve(data);
+
+                }
+            );
+
+        });
+
+    }
+
+    /**
+     * Lists all versions, following the pagination markers
+     *
+     * @param {string} [marker]
+     * @returns {Promise.<Array.<FunctionConfiguration>>}
+     */
+    private listVersions (
+        marker?: string
+    ): Promise<Array<FunctionConfiguration>> {
+
+        return new Promise<ListVersionsByFunctionResponse>(
+            (resolve, reject) => {
+
+                this.lambda.listVersionsByFunction(
+                    {
+                        FunctionName: this.lambdaCfg.FunctionName,
+                        Marker: marker
+                    },
+                    (err, data) => {
+
+                        err ? reject(new AwsApiError(
+                            'listVersionsByFunction',
+                            err
+                        ))
+                            : resolve(data);
+
+                    }
+                );
+
+            }
+        )
+            .then((data) => {
+
+                let versions = data.Versions || [];
+
+                return data.NextMarker ?
+                    this.listVersions(data.NextMarker)
+                        .then((more) => versions.concat(more))
+                    : versions;
+
+            });
+
+    }
+
+    /**
+     * Lists all aliases, following the pagination markers
+     *
+     * @param {string} [marker]
+     * @returns {Promise.<Array.<AliasConfiguration>>}
+     */
+    private listAliases (
+        marker?: string
+    ): Promise<Array<AliasConfiguration>> {
+
+        return new Promise<ListAliasesResponse>((resolve, reject) => {
+
+            this.lambda.listAliases(
+                {
+                    FunctionName: this.lambdaCfg.FunctionName,
+                    Marker: marker
+                },
+                (err, data) => {
+
+                    err ? reject(new AwsApiError('listAliases', err))
+                        : resolve(data);
 
-            // this.lambda.updateFunctionConfiguration({
-            //     FunctionName: this.lambdaCfg.FunctionName,
-            //     Description: this.lambdaCfg.Description,
-            //     Handler: this.lambdaCfg.Handler,
-            //     Runtime: this.lambdaCfg.Runtime,
-            //     MemorySize: this.lambdaCfg.MemorySize,
-            //     Timeout: this.lambdaCfg.Timeout,
-            //     Role: this.lambdaSecrets.Role,
-            //     Environment: this.lambdaSecrets.Environment
-            // }, (err, data) => {
-            //
-            //     err ? reject('Error updating function configuration')
-            //         : resolve(data);
-            //
-            // })
+                }
+            );
 
-            this.lambda.updateFunctionConfiguration(
+        })
+            .then((data) => {
+
+                let aliases = data.Aliases || [];
+
+                return data.NextMarker ?
+                    this.listAliases(data.NextMarker)
+                        .then((more) => aliases.concat(more))
+                    : aliases;
+
+            });
+
+    }
+
+    private invokeFunction (
+        params: InvocationRequest
+    ): Promise<InvocationResponse> {
+
+        return new Promise((resolve, reject) => {
+
+            this.lambda.invoke(
                 params,
                 (err, data) => {
 
-                    err ? reject(err)
+                    err ? reject(new AwsApiError('invoke', err))
                         : resolve(data);
 
                 }
@@ -524,17 +3018,57 @@ class GdwAwsLambda {
 
     }
 
-    private updateFunctionCode (
-        params: UpdateFunctionCodeRequest
-    ): Promise<FunctionConfiguration> {
+    //endregion
+
+    //region AWS S3 Promise wrappers
+
+    private existsObject (bucket: string, key: string): Promise<boolean> {
 
         return new Promise((resolve, reject) => {
 
-            this.lambda.updateFunctionCode(
-                params,
+            this.s3.headObject(
+                {
+                    Bucket: bucket,
+                    Key: key
+                },
+                (err) => {
+
+                    if (err) {
+
+                        err.code === 'NotFound' ?
+                            resolve(false)
+                            : reject(new AwsApiError('headObject', err));
+
+                    } else {
+
+                        resolve(true);
+
+                    }
+
+                }
+            );
+
+        });
+
+    }
+
+    private uploadObject (
+        bucket: string,
+        key: string,
+        body: Buffer
+    ): Promise<S3.ManagedUpload.SendData> {
+
+        return new Promise((resolve, reject) => {
+
+            this.s3.upload(
+                {
+                    Bucket: bucket,
+                    Key: key,
+                    Body: body
+                },
                 (err, data) => {
 
-                    err ? reject(err)
+                    err ? reject(new AwsApiError('upload', err))
                         : resolve(data);
 
                 }
@@ -546,191 +3080,617 @@ class GdwAwsLambda {
 
     //endregion
 
+    //region AWS STS Promise wrappers
+
+    private getCallerIdentity (
+        sts: STS
+    ): Promise<STS.GetCallerIdentityResponse> {
+
+        return new Promise((resolve, reject) => {
+
+            sts.getCallerIdentity({}, (err, data) => {
+
+                err ? reject(new AwsApiError('getCallerIdentity', err))
+                    : resolve(data);
+
+            });
+
+        });
+
+    }
+
+    //endregion
+
     //region Lambda tests
 
-    private runTests () {
+    /**
+     * Runs the loaded tests against the deployed function
+     *
+     * @param {TestOptions} options
+     * @returns {Promise.<Array.<LambdaTestResult>>}
+     */
+    private runRemoteTests (
+        options: TestOptions
+    ): Promise<Array<LambdaTestResult>> {
+
+        return this.createLambdaService()
+            .then(() => {
+
+                return Util.mapLimit(
+                    this.lambdaTests,
+                    options.concurrency || 0,
+                    (test) => {
+
+                        return this.runRemoteTest(test, options.qualifier);
+
+                    }
+                );
+
+            });
+
+    }
+
+    /**
+     * Reads the events for invoke
+     *
+     * @param {InvokeOptions} options
+     * @returns {Promise.<Array.<Object>>}
+     */
+    private readInvokeEvents (options: InvokeOptions): Promise<Array<object>> {
+
+        if (Util.isNEString(options.eventFile)) {
+
+            return this.readObject(options.eventFile)
+                .then((event) => [event]);
+
+        }
+
+        if (Util.isNEString(options.testName)) {
+
+            let name = options.testName;
+
+            return this.readObject(
+                options.testFileName || GdwAwsLambda.FILE_LAMBDA_TESTS,
+                GdwAwsLambda.FILE_LAMBDA_TESTS
+            ).then((tests: Array<LambdaTest>) => {
+
+                let found = tests.filter((test) => test.name === name);
+
+                if (found.length === 0) {
+
+                    throw new GaldError(
+                        GaldError.NOT_FOUND,
+                        `Test ${name} not found`,
+                        {file: options.testFileName, field: 'testName'}
+                    );
+
+                }
+
+                return found[0].events;
+
+            });
+
+        }
+
+        return Promise.resolve([{}]);
+
+    }
+
+    /**
+     * Invokes the events of a test on the deployed function
+     *
+     * @param {LambdaTest} test
+     * @param {string} [qualifier] Version or alias, $LATEST when omitted
+     * @returns {Promise.<LambdaTestResult>}
+     */
+    private runRemoteTest (
+        test: LambdaTest,
+        qualifier?: string
+    ): Promise<LambdaTestResult> {
+
+        let start = Date.now();
+
+        return Util.mapLimit(test.events, 1, (event, index) => {
+
+            let eventStart = Date.now();
+
+            return this.invokeFunction({
+                FunctionName: this.lambdaCfg.FunctionName,
+                Qualifier: qualifier,
+                Payload: JSON.stringify(event)
+            })
+                .then(
+                    (response) => {
+
+                        let payload = GdwAwsLambda.parsePayload(
+                            response.Payload
+                        );
+
+                        return response.FunctionError ?
+                            {error: payload} : {result: payload};
+
+                    },
+                    (error) => {
+
+                        return {error: error};
+
+                    }
+                )
+                .then((outcome: {result?: any, error?: any}) => {
+
+                    let failures = Assert.check(
+                        test.expect ? test.expect[index] : null,
+                        outcome.error,
+                        outcome.result
+                    );
+
+                    let result: EventTestResult = Object.assign({
+                        index: index,
+                        passed: failures.length === 0,
+                        duration: Date.now() - eventStart,
+                        failures: failures
+                    }, outcome);
+
+                    return result;
+
+                });
+
+        })
+            .then((events) => {
+
+                return {
+                    name: test.name,
+                    passed: events.every((event) => event.passed),
+                    duration: Date.now() - start,
+                    events: events
+                };
+
+            });
+
+    }
+
+    private createTestEnvironment (
+        secrets: LambdaSecrets | null
+    ): {[key: string]: string} {
+
+        return Runner.createEnvironment(
+            this.lambdaCfg,
+            secrets ? secrets.region : '',
+            secrets && secrets.Environment &&
+            Util.isObject(secrets.Environment.Variables) ?
+                secrets.Environment.Variables : {}
+        );
+
+    }
+
+    private runTests (
+        secrets: LambdaSecrets | null,
+        options?: TestOptions
+    ): Promise<Array<LambdaTestResult>> {
+
+        let concurrency = options && options.concurrency ?
+            options.concurrency : 0;
+
+        let environment = this.createTestEnvironment(secrets);
+
+        if (options && options.isolate) {
+
+            return Util.mapLimit(this.lambdaTests, concurrency, (test) => {
+
+                return Runner.runIsolated(
+                    this.lambdaCfg,
+                    test,
+                    Object.assign({}, environment, test.environment)
+                );
+
+            });
+
+        }
+
+        // Tests in one process share process.env, a test changing it
+        // while another one waits would hand it the wrong values
+        if (this.lambdaTests.some((test) => !!test.environment)) {
+
+            concurrency = 1;
+
+        }
+
+        let previous = Runner.applyEnvironment(environment);
+
+        return new Promise<Function>((resolve) => {
+
+            resolve(Runner.loadHandler(this.lambdaCfg));
+
+        })
+            .then((handler) => {
+
+                return Util.mapLimit(this.lambdaTests, concurrency, (test) => {
+
+                    Runner.restoreEnvironment(previous);
+                    Runner.applyEnvironment(
+                        Object.assign({}, environment, test.environment)
+                    );
+
+                    return Runner.runTest(handler, this.lambdaCfg, test);
+
+                });
+
+            })
+            .then(
+                (results) => {
+
+                    Runner.restoreEnvironment(previous);
+
+                    return results;
+
+                },
+                (error) => {
+
+                    Runner.restoreEnvironment(previous);
+
+                    throw error;
+
+                }
+            );
+
+    }
+
+    //endregion
+
+    //region File methods
+
+    private readArchive (): Promise<Buffer> {
+
+        if (this.lambdaCfg.package) {
+
+            return this.buildArchive();
+
+        }
+
+        return new Promise((resolve, reject) => {
+
+            if (Util.isNEString(this.lambdaCfg.archiveName)) {
+
+                fs.readFile(
+                    this.lambdaCfg.archiveName,
+                    (err, data) => {
+
+                        if (err) {
+
+                            reject(new ArchiveError(
+                                'Archive ' + this.lambdaCfg.archiveName +
+                                ' not found',
+                                {file: this.lambdaCfg.archiveName, cause: err}
+                            ));
+
+                        } else {
+
+                            this.lambdaBuffer = data;
+                            resolve(this.lambdaBuffer);
+
+                        }
+
+                    }
+                );
+
+            } else {
+
+                reject(new ConfigError('Invalid archive name', {
+                    file: GdwAwsLambda.FILE_LAMBDA_CONFIG,
+                    field: 'archiveName'
+                }));
+
+            }
+
+        });
+
+    }
+
+    private buildArchive (): Promise<Buffer> {
+
+        let ignore: Array<string> = [];
+
+        if (Util.isNEString(this.lambdaCfg.archiveName)) {
+
+            ignore.push(path.relative(
+                process.cwd(),
+                path.resolve(this.lambdaCfg.archiveName)
+            ).split(path.sep).join('/'));
+
+        }
+
+        return Archive.create(
+            process.cwd(),
+            this.lambdaCfg.package || {include: []},
+            ignore
+        )
+            .then((data) => {
+
+                this.lambdaBuffer = data;
+
+                return this.lambdaBuffer;
+
+            });
+
+    }
+
+    private writeArchive (): Promise<string> {
+
+        return new Promise((resolve, reject) => {
+
+            if (Util.isNEString(this.lambdaCfg.archiveName)) {
+
+                fs.writeFile(
+                    this.lambdaCfg.archiveName,
+                    this.lambdaBuffer,
+                    (err) => {
+
+                        err ? reject(new ArchiveError(
+                            'Failed to write archive ' +
+                            this.lambdaCfg.archiveName,
+                            {file: this.lambdaCfg.archiveName, cause: err}
+                        ))
+                            : resolve('Archive ' +
+                            this.lambdaCfg.archiveName + ' created');
+
+                    }
+                );
+
+            } else {
+
+                reject(new ConfigError('Invalid archive name', {
+                    file: GdwAwsLambda.FILE_LAMBDA_CONFIG,
+                    field: 'archiveName'
+                }));
+
+            }
+
+        });
+
+    }
+
+    private readLambdaConfig (): Promise<LambdaConfig> {
+
+        return this.readStageObject(
+            GdwAwsLambda.FILE_LAMBDA_CONFIG
+        ).then((cfg) => {
+
+            if (GdwAwsLambdaType.isLambdaConfig(cfg) &&
+                Util.isNEString(cfg.FunctionName) &&
+                Util.isNEString(cfg.Handler)) {
+
+                this.lambdaCfg = cfg;
 
-        let splits;
-        let module;
-        let eventHandler;
-        let filePath;
+                return this.lambdaCfg;
 
-        // Extract module and handler name
-        splits = this.lambdaCfg.Handler.split('.');
+            } else {
 
-        if (splits.length !== 2) throw 'Invalid handler';
+                throw new ConfigError('Invalid Lambda config', {
+                    file: GdwAwsLambda.FILE_LAMBDA_CONFIG
+                });
 
-        module = splits[0];
-        eventHandler = splits[1];
+            }
 
-        filePath = path.join(process.cwd(), module + '.js');
+        });
 
-        const handler = require(filePath)[eventHandler];
+    }
 
-        if (!handler) throw 'invalid handler object';
+    /**
+     * Reads the secrets for the environment variables of tests,
+     * tests can run without them but not with an invalid file
+     *
+     * @returns {Promise.<?LambdaSecrets>} Null when there is no secrets file
+     */
+    private readTestSecrets (): Promise<LambdaSecrets | null> {
 
-        let promises = [];
+        return GdwAwsLambda.existsFile(GdwAwsLambda.FILE_LAMBDA_SECRETS)
+            .then((exists): Promise<object | null> | null => {
 
-        let i, length;
+                return exists ?
+                    this.readStageObject(GdwAwsLambda.FILE_LAMBDA_SECRETS)
+                    : null;
 
-        length = this.lambdaTests.length;
-        for (i = 0; i < length; i++) {
+            })
+            .then((cfg) => {
 
-            promises.push(GdwAwsLambda.executeContextTest(
-                handler,
-                this.lambdaTests[i]
-            ));
-        }
+                return GdwAwsLambdaType.isLambdaSecrets(cfg) ? cfg : null;
 
-        return Promise.all(promises);
+            });
 
     }
 
-    private static executeContextTest (
-        handler: Function,
-        test: LambdaTest
-    ) {
+    /**
+     * Replaces the secret references in the environment variables
+     * by their values, which are only kept in memory
+     *
+     * @param {LambdaSecrets} secrets
+     * @returns {Promise.<LambdaSecrets>} Copy with the values
+     */
+    private resolveSecrets (secrets: LambdaSecrets): Promise<LambdaSecrets> {
 
-        let promises = [];
+        let environment = secrets.Environment;
 
-        let i, length;
+        if (!environment || !Util.isObject(environment.Variables)) {
 
-        length = test.events.length;
-        for (i = 0; i < length; i++) {
+            return Promise.resolve(secrets);
 
-            promises.push(GdwAwsLambda.executeEventTest(
-                handler,
-                test.context,
-                test.events[i]
-            ));
         }
 
-        return Promise.all(promises);
-
-    }
+        return SecretResolver.resolve(environment.Variables, () => {
 
-    private static executeEventTest (
-        handler: Function,
-        context: object | null | undefined,
-        event: object | null | undefined
-    ) {
+            let serviceOptions = this.getServiceOptions(secrets);
 
-        return new Promise((resolve, reject) => {
+            return {
+                ssm: new SSM(Object.assign({
+                    apiVersion: GdwAwsLambda.AWS_SSM_VERSION
+                }, serviceOptions)),
+                secretsManager: new SecretsManager(Object.assign({
+                    apiVersion: GdwAwsLambda.AWS_SECRETS_MANAGER_VERSION
+                }, serviceOptions))
+            };
 
-            handler(event, context, (err: any, data: any) => {
+        }, GdwAwsLambda.FILE_LAMBDA_SECRETS)
+            .then((variables) => {
 
-                err ? reject(err)
-                    : resolve(data);
+                return Object.assign({}, secrets, {
+                    Environment: Object.assign({}, environment, {
+                        Variables: variables
+                    })
+                });
 
             });
 
-        });
-
     }
 
-    //endregion
+    private resolveTestSecrets (
+        secrets: LambdaSecrets | null
+    ): Promise<LambdaSecrets | null> {
 
-    //region File methods
+        return secrets ? this.resolveSecrets(secrets) : Promise.resolve(null);
 
-    private readArchive () {
+    }
 
-        return new Promise((resolve, reject) => {
+    private readConfig () {
 
-            if (Util.isNEString(this.lambdaCfg.archiveName)) {
+        return Promise.all([
+            this.readLambdaConfig(),
+            this.readStageObject(
+                GdwAwsLambda.FILE_LAMBDA_SECRETS
+            ).then((cfg): LambdaSecrets => {
 
-                fs.readFile(
-                    this.lambdaCfg.archiveName,
-                    (err, data) => {
+                if (GdwAwsLambdaType.isLambdaSecrets(cfg) &&
+                    Util.isNEString(GdwAwsLambda.getRegion(cfg)) &&
+                    Util.isNEString(cfg.Role)) {
 
-                        if (err) {
+                    this.lambdaSecrets = cfg;
 
-                            reject('Archive ' + this.lambdaCfg.archiveName +
-                                'not found');
+                    return this.lambdaSecrets;
 
-                        } else {
+                } else {
 
-                            this.lambdaBuffer = data;
-                            resolve(this.lambdaBuffer);
+                    throw new ConfigError('Invalid Lambda secrets, ' +
+                        'region and Role are required', {
+                        file: this.getSecretsFile(),
+                        field: GdwAwsLambdaType.isLambdaSecrets(cfg) &&
+                            Util.isNEString(GdwAwsLambda.getRegion(cfg)) ?
+                            'Role' : 'region'
+                    });
 
-                        }
+                }
 
-                    }
-                );
+            })
+        ]);
 
-            } else {
+    }
 
-                reject('Invalid archive name');
+    /**
+     * Creates a missing file, an existing one is kept even when invalid
+     *
+     * @param {string} file
+     * @returns {Promise.<string>}
+     */
+    private checkAndInit (file: string): Promise<string> {
 
-            }
+        return GdwAwsLambda.existsFile(file)
+            .then((exists) => {
 
-        });
+                return exists ? `File ${file} exists already`
+                    : this.initFile(file);
 
+            });
     }
 
-    private readConfig () {
+    private checkAndInitStage (file: string): Promise<string> {
 
-        return Promise.all([
-            this.readObject(
-                GdwAwsLambda.FILE_LAMBDA_CONFIG,
-                GdwAwsLambda.FILE_LAMBDA_CONFIG
-            ).then((cfg) => {
+        let stageFile = GdwAwsLambda.getStageFile(file, this.stage);
 
-                if (GdwAwsLambdaType.isLambdaConfig(cfg) &&
-                    Util.isNEString(cfg.FunctionName) &&
-                    Util.isNEString(cfg.Handler)) {
+        return GdwAwsLambda.existsFile(stageFile)
+            .then((exists) => {
 
-                    this.lambdaCfg = cfg;
+                if (exists) {
 
-                    return this.lambdaCfg;
+                    return `File ${stageFile} exists already`;
 
-                } else {
+                }
+
+                let obj = GdwAwsLambda.createStageObject(file);
+
+                if (obj) {
+
+                    return this.writeObject(stageFile, obj);
 
-                    // return Promise.reject('Invalid Lambda config');
-                    throw 'Invalid Lambda config';
+                } else {
 
+                    throw new ConfigError(
+                        `Unable to create object for ${stageFile}`,
+                        {file: stageFile}
+                    );
                 }
 
-            }),
-            this.readObject(
+            });
+    }
+
+    /**
+     * @returns {string} The secrets file of the stage when one is set
+     */
+    private getSecretsFile (): string {
+
+        return this.stage ?
+            GdwAwsLambda.getStageFile(
                 GdwAwsLambda.FILE_LAMBDA_SECRETS,
-                GdwAwsLambda.FILE_LAMBDA_SECRETS
-            ).then((cfg): LambdaSecrets => {
+                this.stage
+            )
+            : GdwAwsLambda.FILE_LAMBDA_SECRETS;
 
-                if (GdwAwsLambdaType.isLambdaSecrets(cfg) &&
-                    Util.isNEString(cfg.region) &&
-                    Util.isNEString(cfg.Role)) {
+    }
 
-                    this.lambdaSecrets = cfg;
+    /**
+     * Reads a configuration file and, when a stage is set,
+     * merges the stage file on top of it
+     *
+     * @param {string} file
+     * @returns {Promise.<Object>}
+     */
+    private readStageObject (file: string): Promise<object> {
 
-                    return this.lambdaSecrets;
+        if (!this.stage) {
 
-                } else {
+            return this.readObject(file, file);
 
-                    // return Promise.reject('Invalid Lambda secrets');
-                    throw 'Invalid Lambda secrets';
+        }
 
-                }
+        if (!GdwAwsLambda.REGEX_STAGE.test(this.stage)) {
 
-            })
-        ]);
+            return Promise.reject(GdwAwsLambda.createStageError(this.stage));
 
-    }
+        }
 
-    private checkAndInit (file: string, type: string): Promise<string> {
+        let stageFile = GdwAwsLambda.getStageFile(file, this.stage);
 
-        return this.readObject(file, type)
-            .then(
-                () => {
+        // Only the merged object has to be complete
+        return Promise.all([
+            this.readObject(file),
+            this.readObject(stageFile)
+        ]).then((results) => {
+
+            let object = Util.merge(results[0], results[1]);
+            let result = GdwAwsLambda.checkObject(
+                object,
+                file,
+                stageFile,
+                `${file} with ${stageFile}`
+            );
 
-                    return `File ${file} exists already`;
+            if (result) {
 
-                },
-                () => {
+                throw result;
+
+            }
 
-                    return this.initFile(file);
+            return object;
+
+        });
 
-                }
-            );
     }
 
     private initFile (file: string): Promise<string> {
@@ -744,8 +3704,9 @@ class GdwAwsLambda {
 
         } else {
 
-            // return Promise.reject(`Unable to create object for ${file}`);
-            throw `Unable to create object for ${file}`;
+            throw new ConfigError(`Unable to create object for ${file}`, {
+                file: file
+            });
         }
 
     }
@@ -758,7 +3719,10 @@ class GdwAwsLambda {
 
                 if (err) {
 
-                    reject(`Failed to read file ${file}`);
+                    reject(new ConfigError(`Failed to read file ${file}`, {
+                        file: file,
+                        cause: err
+                    }));
 
                 } else {
 
@@ -766,21 +3730,28 @@ class GdwAwsLambda {
 
                     try {
 
-                        object = JSON.parse(data);
+                        object = Schema.parseJson(data, file);
 
                     } catch (e) {
 
-                        // return Promise.reject('Invalid JSON');
-                       reject('Invalid JSON');
+                        reject(e);
 
+                        return;
                     }
 
-                    if (object) {
+                    if (!Util.isObject(object)) {
+
+                        reject(new ConfigError(
+                            `Invalid ${file}: expected an object or an array`,
+                            {file: file}
+                        ));
+
+                    } else {
 
                         if (checkType) {
 
                             let result = GdwAwsLambda
-                                .checkObject(object, checkType);
+                                .checkObject(object, checkType, file);
 
                             result ? reject(result)
                                 : resolve(object);
@@ -809,7 +3780,11 @@ class GdwAwsLambda {
                 'utf8',
                 (err) => {
 
-                    err ? reject(`Failed to write file ${file}`)
+                    err ? reject(new GaldError(
+                        GaldError.FILE_WRITE,
+                        `Failed to write file ${file}`,
+                        {file: file, cause: err}
+                    ))
                         : resolve(`File ${file} has been written`);
 
                 });
@@ -821,60 +3796,428 @@ class GdwAwsLambda {
 
     //region Static methods
 
+    /**
+     * Validates a config file against its schema
+     *
+     * @param {Object} object
+     * @param {string} checkType The file name the schema belongs to
+     * @param {string} [file] The file that was read
+     * @param {string} [label] Names the file in the message
+     * @returns {?ConfigError} Holds every problem found, null when valid
+     */
     private static checkObject (
-        object: LambdaConfig | LambdaSecrets | Array<LambdaTest>,
-        checkType: string
-    ): string {
+        object: any,
+        checkType: string,
+        file?: string,
+        label?: string
+    ): ConfigError | null {
+
+        let violations;
 
         switch (checkType) {
             case GdwAwsLambda.FILE_LAMBDA_CONFIG:
 
-                if (GdwAwsLambdaType.isLambdaConfig(object)) {
+                violations = Schema.validateConfig(object);
 
-                    return '';
+                break;
+            case GdwAwsLambda.FILE_LAMBDA_SECRETS:
 
-                } else {
+                violations = Schema.validateSecrets(object);
 
-                    return 'Invalid lambda config';
-                }
+                break;
+            case GdwAwsLambda.FILE_LAMBDA_TESTS:
 
-            case GdwAwsLambda.FILE_LAMBDA_SECRETS:
+                violations = Schema.validateTests(object);
 
-                if (GdwAwsLambdaType.isLambdaSecrets(object)) {
+                break;
+            default:
 
-                    return '';
+                return new ConfigError(`Invalid check type ${checkType}`);
+        }
 
-                } else {
+        if (violations.length === 0) return null;
 
-                    return 'Invalid lambda secrets';
-                }
+        return new ConfigError(
+            Schema.format(label || file || checkType, violations),
+            {
+                file: file || checkType,
+                field: violations[0].path.replace(/^\$\.?/, '')
+            },
+            violations
+        );
+    }
 
-            case GdwAwsLambda.FILE_LAMBDA_TESTS:
+    private static createStageError (stage: string): GaldError {
 
-                if (Array.isArray(object)) {
+        return new GaldError(
+            GaldError.INVALID_OPTION,
+            `Invalid stage ${stage}`,
+            {field: 'stage'}
+        );
 
-                    let i, length;
-                    length = object.length;
+    }
 
-                    for (i = 0; i < length; i++) {
+    /**
+     * @param {LambdaSecrets} secrets
+     * @returns {string} Empty when neither the secrets file
+     *                   nor the environment has a region
+     */
+    private static getRegion (secrets: LambdaSecrets): string {
 
-                        if (!GdwAwsLambdaType.isLambdaTest(object[i])) {
+        return secrets.region || process.env.AWS_REGION ||
+            process.env.AWS_DEFAULT_REGION || '';
 
-                            return 'Invalid lambda tests';
-                        }
-                    }
+    }
 
-                    return '';
+    /**
+     * Calculates the hash AWS Lambda reports as CodeSha256
+     *
+     * @param {Buffer} data Zip archive
+     * @returns {string}
+     */
+    private static getCodeSha256 (data: Buffer): string {
 
-                } else {
+        return crypto.createHash('sha256').update(data).digest('base64');
+
+    }
+
+    /**
+     * Extracts the published version numbers in ascending order
+     *
+     * @param {Array.<FunctionConfiguration>} versions
+     * @returns {Array.<string>}
+     */
+    private static getPublishedVersions (
+        versions: Array<FunctionConfiguration>
+    ): Array<string> {
+
+        return versions
+            .map((version) => version.Version || '')
+            .filter((version) => /^\d+$/.test(version))
+            .sort((a, b) => parseInt(a, 10) - parseInt(b, 10));
+
+    }
+
+    /**
+     * Brings the optional configuration of the local config and
+     * a deployed function in the same shape, defaults become undefined
+     *
+     * @param {LambdaConfig|FunctionConfiguration} config
+     * @returns {Object}
+     */
+    private static getComparableConfig (config: any): {[field: string]: any} {
+
+        let vpc = config.VpcConfig || {};
+        let subnets: Array<string> = (vpc.SubnetIds || []).slice().sort();
+        let groups: Array<string> = (vpc.SecurityGroupIds || []).slice().sort();
+        let layers: Array<string> = (config.Layers || []).map((layer: any) => {
 
-                    return 'Invalid lambda tests';
+            return typeof layer === 'string' ? layer : layer.Arn;
+
+        });
+        let mode = config.TracingConfig ? config.TracingConfig.Mode : undefined;
+
+        return {
+            'VpcConfig.SubnetIds': subnets.length > 0 ? subnets : undefined,
+            'VpcConfig.SecurityGroupIds': groups.length > 0 ?
+                groups : undefined,
+            'DeadLetterConfig.TargetArn': config.DeadLetterConfig &&
+                config.DeadLetterConfig.TargetArn || undefined,
+            'TracingConfig.Mode': mode === 'PassThrough' ? undefined : mode,
+            'KMSKeyArn': config.KMSKeyArn || undefined,
+            'Layers': layers.length > 0 ? layers : undefined
+        };
+
+    }
+
+    /**
+     * Creates the statement ID of a permission from its content,
+     * the same permission always gets the same ID
+     *
+     * @param {PermissionConfig} permission
+     * @returns {string}
+     */
+    private static getStatementId (permission: PermissionConfig): string {
+
+        return GdwAwsLambda.STATEMENT_ID_PREFIX + crypto.createHash('sha256')
+            .update(JSON.stringify([
+                permission.Action || GdwAwsLambda.DEFAULT_PERMISSION_ACTION,
+                permission.Principal,
+                permission.SourceArn || '',
+                permission.SourceAccount || ''
+            ]))
+            .digest('hex')
+            .substring(0, 32);
+
+    }
+
+    /**
+     * Calculates the percentages of traffic for every step
+     *
+     * @param {TrafficShiftingConfig} shifting
+     * @returns {Array.<number>}
+     */
+    private static getTrafficWeights (
+        shifting: TrafficShiftingConfig
+    ): Array<number> {
+
+        let weights: Array<number> = [];
+        let weight = shifting.percentage;
+
+        if (shifting.type === 'canary') {
+
+            weights.push(weight);
+
+        } else {
+
+            while (weight < 100) {
+
+                weights.push(weight);
+
+                weight += shifting.percentage;
+            }
+
+        }
+
+        if (weights[weights.length - 1] !== 100) weights.push(100);
+
+        return weights;
+
+    }
+
+    /**
+     * Parses the payload returned by an invocation
+     *
+     * @param {*} payload
+     * @returns {*}
+     */
+    private static parsePayload (payload: any): any {
+
+        if (payload === undefined || payload === null) return undefined;
+
+        let text = String(payload);
+
+        try {
+
+            return text.length > 0 ? JSON.parse(text) : undefined;
+
+        } catch (e) {
+
+            return text;
+        }
+
+    }
+
+    /**
+     * Creates the content of lambda-config.json from a deployed function,
+     * without package so deploy uses the archive as it is
+     *
+     * @param {GetFunctionResponse} info
+     * @returns {LambdaConfig}
+     */
+    private static createConfigFromFunction (
+        info: GetFunctionResponse
+    ): LambdaConfig {
+
+        let config: FunctionConfiguration = info.Configuration || {};
+        let comparable = GdwAwsLambda.getComparableConfig(config);
+        let result: any = {
+            archiveName: GdwAwsLambda.PULL_ARCHIVE_NAME,
+            FunctionName: config.FunctionName || '',
+            Description: config.Description || '',
+            Handler: config.Handler || '',
+            Publish: false,
+            Runtime: <LambdaRuntime> config.Runtime,
+            MemorySize: config.MemorySize,
+            Timeout: config.Timeout
+        };
+
+        if (comparable['VpcConfig.SubnetIds']) {
+
+            result.VpcConfig = {
+                SubnetIds: comparable['VpcConfig.SubnetIds'],
+                SecurityGroupIds: comparable['VpcConfig.SecurityGroupIds'] ||
+                    []
+            };
+
+        }
+
+        if (comparable['DeadLetterConfig.TargetArn']) {
+
+            result.DeadLetterConfig = {
+                TargetArn: comparable['DeadLetterConfig.TargetArn']
+            };
+
+        }
+
+        if (comparable['TracingConfig.Mode']) {
+
+            result.TracingConfig = {
+                Mode: comparable['TracingConfig.Mode']
+            };
+
+        }
+
+        if (comparable['KMSKeyArn']) {
+
+            result.KMSKeyArn = comparable['KMSKeyArn'];
+
+        }
+
+        if (comparable['Layers']) {
+
+            result.Layers = comparable['Layers'];
+
+        }
+
+        if (!Util.isEmpty(info.Tags)) {
+
+            result.Tags = info.Tags;
+
+        }
+
+        if (info.Concurrency &&
+            info.Concurrency.ReservedConcurrentExecutions !== undefined) {
+
+            result.ReservedConcurrentExecutions =
+                info.Concurrency.ReservedConcurrentExecutions;
+
+        }
+
+        return result;
+
+    }
+
+    /**
+     * Creates the content of lambda-secrets.json from a deployed function
+     *
+     * @param {GetFunctionResponse} info
+     * @param {LambdaSecrets} secrets Region and credentials in use
+     * @param {boolean} omitEnvironment Keep the names of the environment
+     *                                  variables but leave the values empty
+     * @returns {LambdaSecrets}
+     */
+    private static createSecretsFromFunction (
+        info: GetFunctionResponse,
+        secrets: LambdaSecrets,
+        omitEnvironment: boolean
+    ): LambdaSecrets {
+
+        let config: FunctionConfiguration = info.Configuration || {};
+        let remote = config.Environment && config.Environment.Variables || {};
+        let variables: {[key: string]: string} = {};
+
+        Object.keys(remote).forEach((key) => {
+
+            variables[key] = omitEnvironment ? '' : remote[key];
+
+        });
+
+        return {
+            region: secrets.region,
+            profile: secrets.profile || '',
+            accessKeyId: secrets.accessKeyId || '',
+            secretAccessKey: secrets.secretAccessKey || '',
+            Role: config.Role || '',
+            Environment: {
+                Variables: variables
+            }
+        };
+
+    }
+
+    private static existsFile (file: string): Promise<boolean> {
+
+        return new Promise((resolve) => {
+
+            fs.access(file, (err) => {
+
+                resolve(!err);
+
+            });
+
+        });
+
+    }
+
+    private static downloadFile (url: string, file: string): Promise<string> {
+
+        return new Promise((resolve, reject) => {
+
+            https.get(url, (response) => {
+
+                if (response.statusCode !== 200) {
+
+                    response.resume();
+
+                    reject(new GaldError(
+                        GaldError.DOWNLOAD,
+                        `Failed to download ${file}, ` +
+                        `status ${response.statusCode}`,
+                        {file: file}
+                    ));
+
+                    return;
                 }
 
-            default:
+                let stream = fs.createWriteStream(file);
+
+                stream.on('error', () => {
+
+                    reject(new GaldError(
+                        GaldError.FILE_WRITE,
+                        `Failed to write file ${file}`,
+                        {file: file}
+                    ));
 
-                return `Invalid check type ${checkType}`;
+                });
+
+                stream.on('finish', () => {
+
+                    resolve(`File ${file} has been written`);
+
+                });
+
+                response.pipe(stream);
+
+            }).on('error', (err) => {
+
+                reject(new GaldError(
+                    GaldError.DOWNLOAD,
+                    `Failed to download ${file}`,
+                    {file: file, cause: err}
+                ));
+
+            });
+
+        });
+
+    }
+
+    private static getStageFile (file: string, stage: string): string {
+
+        return file.replace(/\.json$/, `.${stage}.json`);
+
+    }
+
+    private static createStageObject (
+        type: string
+    ): object | null {
+
+        switch (type) {
+            case GdwAwsLambda.FILE_LAMBDA_CONFIG:
+
+                return {};
+
+            case GdwAwsLambda.FILE_LAMBDA_SECRETS:
+
+                // Empty values would override the shared file
+                return {};
+
+            default:
+                return null;
         }
+
     }
 
     private static createObject (
@@ -892,7 +4235,12 @@ class GdwAwsLambda {
                     Publish: false,
                     Runtime: 'nodejs6.10',
                     MemorySize: 128,
-                    Timeout: 3
+                    Timeout: 3,
+                    package: {
+                        include: ['**/*.js'],
+                        exclude: [],
+                        nodeModules: 'copy'
+                    }
                 };
 
             case GdwAwsLambda.FILE_LAMBDA_SECRETS:
@@ -926,4 +4274,7 @@ class GdwAwsLambda {
     //endregion
 }
 
-module.exports = GdwAwsLambda;
+export default GdwAwsLambda;
+export {GdwAwsLambda};
+export * from './errors';
+export * from './types';
@@ -0,0 +1,320 @@
+// Node JS dependencies
+import * as os from 'os';
+import * as util from 'util';
+
+// Local dependencies
+import Assert from './assert';
+import {GaldError} from './errors';
+import {
+    EventTestResult,
+    LambdaTestResult,
+    TestReporter
+} from './types';
+
+export default class Reporter {
+
+    public static readonly REPORTERS: Array<TestReporter> = [
+        'pretty',
+        'json',
+        'junit',
+        'tap'
+    ];
+
+    /**
+     * Formats test results for people (pretty) or tools (json, junit, tap)
+     *
+     * @param {Array.<LambdaTestResult>} results
+     * @param {TestReporter} reporter
+     * @param {boolean} verbose Include results and errors
+     * @returns {string}
+     */
+    static format (
+        results: Array<LambdaTestResult>,
+        reporter: TestReporter,
+        verbose: boolean
+    ): string {
+
+        switch (reporter) {
+            case 'json':
+
+                return Reporter.formatJson(results);
+
+            case 'junit':
+
+                return Reporter.formatJUnit(results);
+
+            case 'tap':
+
+                return Reporter.formatTap(results);
+
+            case 'pretty':
+
+                return Reporter.formatPretty(results, verbose);
+
+            default:
+
+                throw new GaldError(
+                    GaldError.INVALID_OPTION,
+                    `Invalid reporter ${reporter}`,
+                    {field: 'reporter'}
+                );
+        }
+
+    }
+
+    private static formatPretty (
+        results: Array<LambdaTestResult>,
+        verbose: boolean
+    ): string {
+
+        let lines: Array<string> = [];
+        let count = Reporter.count(results);
+
+        results.forEach((test, testIndex) => {
+
+            lines.push(Reporter.getName(test, testIndex));
+
+            test.events.forEach((event) => {
+
+                lines.push((event.passed ? '  PASS' : '  FAIL') +
+                    ' event ' + event.index +
+                    ' (' + event.duration + ' ms)');
+
+                event.failures.forEach((failure) => {
+
+                    lines.push('    ' + failure);
+
+                });
+
+                if (verbose) {
+
+                    lines.push(event.hasOwnProperty('error') ?
+                        '    Error: ' + util.inspect(event.error)
+                        : '    Result: ' + util.inspect(event.result));
+
+                }
+
+            });
+
+        });
+
+        lines.push('Tests completed, ' + count.passed + ' passed, ' +
+            count.failed + ' failed');
+
+        return lines.join(os.EOL);
+    }
+
+    private static formatJson (results: Array<LambdaTestResult>): string {
+
+        let count = Reporter.count(results);
+
+        return JSON.stringify({
+            passed: count.failed === 0,
+            total: count.passed + count.failed,
+            failures: count.failed,
+            tests: results.map((test, testIndex) => {
+
+                return {
+                    name: Reporter.getName(test, testIndex),
+                    passed: test.passed,
+                    duration: test.duration,
+                    events: test.events.map((event) => {
+
+                        return {
+                            index: event.index,
+                            passed: event.passed,
+                            duration: event.duration,
+                            result: event.result,
+                            error: event.hasOwnProperty('error') ?
+                                Assert.getMessage(event.error) : undefined,
+                            failures: event.failures
+                        };
+
+                    })
+                };
+
+            })
+        }, null, 2);
+    }
+
+    private static formatJUnit (results: Array<LambdaTestResult>): string {
+
+        let count = Reporter.count(results);
+        let lines: Array<string> = [];
+        let duration = 0;
+
+        results.forEach((test) => {
+
+            duration += test.duration;
+
+        });
+
+        lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+        lines.push('<testsuites name="gald" tests="' +
+            (count.passed + count.failed) + '" failures="' + count.failed +
+            '" time="' + Reporter.toSeconds(duration) + '">');
+
+        results.forEach((test, testIndex) => {
+
+            let name = Reporter.escapeXml(Reporter.getName(test, testIndex));
+            let failures = test.events.filter((event) => !event.passed);
+
+            lines.push('  <testsuite name="' + name + '" tests="' +
+                test.events.length + '" failures="' + failures.length +
+                '" time="' + Reporter.toSeconds(test.duration) + '">');
+
+            test.events.forEach((event) => {
+
+                let caseLine = '    <testcase classname="' + name +
+                    '" name="event ' + event.index + '" time="' +
+                    Reporter.toSeconds(event.duration) + '"';
+
+                if (event.passed) {
+
+                    lines.push(caseLine + '/>');
+
+                } else {
+
+                    lines.push(caseLine + '>');
+                    lines.push('      <failure message="' +
+                        Reporter.escapeXml(event.failures[0] || '') + '">' +
+                        Reporter.escapeXml(Reporter.getDetails(event)) +
+                        '</failure>');
+                    lines.push('    </testcase>');
+
+                }
+
+            });
+
+            lines.push('  </testsuite>');
+
+        });
+
+        lines.push('</testsuites>');
+
+        return lines.join(os.EOL);
+    }
+
+    private static formatTap (results: Array<LambdaTestResult>): string {
+
+        let count = Reporter.count(results);
+        let lines: Array<string> = [];
+        let number = 0;
+
+        lines.push('TAP version 13');
+        lines.push('1..' + (count.passed + count.failed));
+
+        results.forEach((test, testIndex) => {
+
+            let name = Reporter.getName(test, testIndex);
+
+            test.events.forEach((event) => {
+
+                number++;
+
+                lines.push((event.passed ? 'ok ' : 'not ok ') + number +
+                    ' - ' + Reporter.escapeTap(name) + ' event ' +
+                    event.index);
+                lines.push('  ---');
+                lines.push('  duration_ms: ' + event.duration);
+
+                if (!event.passed) {
+
+                    lines.push('  failures:');
+
+                    event.failures.forEach((failure) => {
+
+                        lines.push('    - ' + JSON.stringify(failure));
+
+                    });
+
+                }
+
+                lines.push('  ...');
+
+            });
+
+        });
+
+        return lines.join(os.EOL);
+    }
+
+    private static getName (test: LambdaTestResult, index: number): string {
+
+        return test.name || 'Test ' + index;
+
+    }
+
+    private static getDetails (event: EventTestResult): string {
+
+        let details = event.failures.join(os.EOL);
+
+        if (event.hasOwnProperty('error')) {
+
+            details += os.EOL + 'Error: ' + Assert.getMessage(event.error);
+
+        }
+
+        return details;
+    }
+
+    private static count (
+        results: Array<LambdaTestResult>
+    ): {passed: number, failed: number} {
+
+        let count = {passed: 0, failed: 0};
+
+        results.forEach((test) => {
+
+            test.events.forEach((event) => {
+
+                event.passed ? count.passed++
+                    : count.failed++;
+
+            });
+
+        });
+
+        return count;
+    }
+
+    private static toSeconds (duration: number): string {
+
+        return (duration / 1000).toFixed(3);
+
+    }
+
+    /**
+     * A # would start a directive, like SKIP, and a line break a new line
+     *
+     * @param {string} value
+     * @returns {string}
+     */
+    private static escapeTap (value: string): string {
+
+        return value
+            .replace(/\\/g, '\\\\')
+            .replace(/#/g, '\\#')
+            .replace(/\r?\n/g, ' ');
+
+    }
+
+    /**
+     * Control characters, like the colors of a log line,
+     * are not allowed in XML and are left out
+     *
+     * @param {string} value
+     * @returns {string}
+     */
+    private static escapeXml (value: string): string {
+
+        return value
+            .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;');
+
+    }
+}
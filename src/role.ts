@@ -0,0 +1,187 @@
+// AWS SDK dependencies
+import IAM = require('aws-sdk/clients/iam');
+
+// Local dependencies
+import {AwsApiError} from './errors';
+import Util from './util';
+import {LambdaConfig} from './types';
+
+/**
+ * Creates the IAM role a Lambda function runs with
+ */
+export default class ExecutionRole {
+
+    public static readonly BASIC_EXECUTION_POLICY = 'arn:aws:iam::aws:' +
+        'policy/service-role/AWSLambdaBasicExecutionRole';
+    public static readonly VPC_EXECUTION_POLICY = 'arn:aws:iam::aws:' +
+        'policy/service-role/AWSLambdaVPCAccessExecutionRole';
+
+    private static readonly TRUST_POLICY = {
+        Version: '2012-10-17',
+        Statement: [
+            {
+                Effect: 'Allow',
+                Principal: {
+                    Service: 'lambda.amazonaws.com'
+                },
+                Action: 'sts:AssumeRole'
+            }
+        ]
+    };
+
+    private static readonly SUFFIX = '-role';
+    private static readonly MAX_NAME_LENGTH = 64;
+
+    /**
+     * Creates the role, or reuses an existing one with the same name,
+     * and attaches the logs policy and the declared policies
+     *
+     * @param {IAM} iam
+     * @param {LambdaConfig} config
+     * @returns {Promise.<string>} ARN of the role
+     */
+    static create (iam: IAM, config: LambdaConfig): Promise<string> {
+
+        let name = ExecutionRole.getName(config.FunctionName);
+        let roleConfig = config.executionRole || {};
+        let inlinePolicies = roleConfig.inlinePolicies || {};
+
+        // The VPC policy includes the CloudWatch Logs permissions
+        let managedPolicies = [
+            config.VpcConfig ? ExecutionRole.VPC_EXECUTION_POLICY
+                : ExecutionRole.BASIC_EXECUTION_POLICY
+        ].concat(roleConfig.managedPolicies || []);
+
+        let arn: string;
+
+        return ExecutionRole.getOrCreateRole(iam, name, config.FunctionName)
+            .then((roleArn) => {
+
+                arn = roleArn;
+
+                return Util.mapLimit(managedPolicies, 1, (policyArn) => {
+
+                    return ExecutionRole.request<{}>(
+                        'attachRolePolicy',
+                        (callback) => {
+
+                            iam.attachRolePolicy({
+                                RoleName: name,
+                                PolicyArn: policyArn
+                            }, callback);
+
+                        }
+                    );
+
+                });
+
+            })
+            .then(() => {
+
+                return Util.mapLimit(
+                    Object.keys(inlinePolicies),
+                    1,
+                    (policyName) => {
+
+                        return ExecutionRole.request<{}>(
+                            'putRolePolicy',
+                            (callback) => {
+
+                                iam.putRolePolicy({
+                                    RoleName: name,
+                                    PolicyName: policyName,
+                                    PolicyDocument: JSON.stringify(
+                                        inlinePolicies[policyName]
+                                    )
+                                }, callback);
+
+                            }
+                        );
+
+                    }
+                );
+
+            })
+            .then(() => {
+
+                return arn;
+
+            });
+
+    }
+
+    /**
+     * @param {string} functionName
+     * @returns {string}
+     */
+    static getName (functionName: string): string {
+
+        return functionName.substring(
+            0,
+            ExecutionRole.MAX_NAME_LENGTH - ExecutionRole.SUFFIX.length
+        ) + ExecutionRole.SUFFIX;
+
+    }
+
+    private static getOrCreateRole (
+        iam: IAM,
+        name: string,
+        functionName: string
+    ): Promise<string> {
+
+        return ExecutionRole.request<IAM.GetRoleResponse | null>(
+            'getRole',
+            (callback) => {
+
+                iam.getRole({RoleName: name}, (err, data) => {
+
+                    err && err.code === 'NoSuchEntity' ?
+                        callback(null, null)
+                        : callback(err, data);
+
+                });
+
+            }
+        )
+            .then((result) => {
+
+                if (result) return result.Role.Arn;
+
+                return ExecutionRole.request<IAM.CreateRoleResponse>(
+                    'createRole',
+                    (callback) => {
+
+                        iam.createRole({
+                            RoleName: name,
+                            Description: 'Execution role of ' + functionName,
+                            AssumeRolePolicyDocument: JSON.stringify(
+                                ExecutionRole.TRUST_POLICY
+                            )
+                        }, callback);
+
+                    }
+                )
+                    .then((created) => created.Role.Arn);
+
+            });
+
+    }
+
+    private static request<T> (
+        operation: string,
+        send: (callback: (err: any, data: T) => void) => void
+    ): Promise<T> {
+
+        return new Promise<T>((resolve, reject) => {
+
+            send((err, data) => {
+
+                err ? reject(new AwsApiError(operation, err))
+                    : resolve(data);
+
+            });
+
+        });
+
+    }
+}
@@ -0,0 +1,533 @@
+// Node JS dependencies
+import * as childProcess from 'child_process';
+import * as path from 'path';
+
+// Local dependencies
+import Assert from './assert';
+import LambdaContext from './context';
+import {ConfigError} from './errors';
+import Util from './util';
+import {
+    EventTestResult,
+    LambdaConfig,
+    LambdaExpectation,
+    LambdaTest,
+    LambdaTestResult
+} from './types';
+
+export interface WorkerMessage {
+    readonly config: LambdaConfig,
+    readonly test: LambdaTest
+}
+
+export default class Runner {
+
+    public static readonly ERR_HANDLER_CALLBACK_AND_PROMISE =
+        'Handler called the callback and returned a Promise';
+    public static readonly ERR_HANDLER_NO_RESULT =
+        'handler did not call the callback or return a Promise';
+
+    private static readonly DEFAULT_TIMEOUT = 3;
+
+    // Time a test process gets on top of the Timeout of its events
+    private static readonly WORKER_GRACE = 5000;
+
+    private static readonly FILE_WORKER = path.join(__dirname, 'worker.js');
+
+    /**
+     * Requires the module of the configured Handler
+     *
+     * @param {LambdaConfig} config
+     * @returns {Function}
+     */
+    static loadHandler (config: LambdaConfig): Function {
+
+        let splits;
+        let module;
+        let eventHandler;
+        let filePath;
+
+        // Extract module and handler name
+        splits = config.Handler.split('.');
+
+        if (splits.length !== 2) {
+
+            throw new ConfigError('Invalid handler', {field: 'Handler'});
+        }
+
+        module = splits[0];
+        eventHandler = splits[1];
+
+        filePath = path.join(process.cwd(), module + '.js');
+
+        const handler = require(filePath)[eventHandler];
+
+        if (!handler) {
+
+            throw new ConfigError('Invalid handler object', {
+                field: 'Handler'
+            });
+        }
+
+        return handler;
+
+    }
+
+    /**
+     * Creates the environment variables AWS Lambda provides,
+     * on top of the configured ones
+     *
+     * @param {LambdaConfig} config
+     * @param {string} region
+     * @param {Object.<string, string>} variables
+     * @returns {Object.<string, string>}
+     */
+    static createEnvironment (
+        config: LambdaConfig,
+        region: string,
+        variables: {[key: string]: string}
+    ): {[key: string]: string} {
+
+        let environment: {[key: string]: string} = {};
+
+        Object.keys(variables).forEach((key) => {
+
+            environment[key] = variables[key];
+
+        });
+
+        environment.AWS_LAMBDA_FUNCTION_NAME = config.FunctionName;
+        environment.AWS_LAMBDA_FUNCTION_VERSION = '$LATEST';
+        environment.AWS_LAMBDA_FUNCTION_MEMORY_SIZE =
+            String(config.MemorySize);
+        environment.AWS_LAMBDA_LOG_GROUP_NAME =
+            '/aws/lambda/' + config.FunctionName;
+        environment.LAMBDA_TASK_ROOT = process.cwd();
+
+        if (Util.isNEString(region)) {
+
+            environment.AWS_REGION = region;
+            environment.AWS_DEFAULT_REGION = region;
+
+        }
+
+        return environment;
+    }
+
+    /**
+     * Sets environment variables on the current process
+     *
+     * @param {Object.<string, string>} environment
+     * @returns {Object.<string, string>} Copy of the previous environment
+     */
+    static applyEnvironment (
+        environment: {[key: string]: string}
+    ): {[key: string]: string | undefined} {
+
+        let previous: {[key: string]: string | undefined} = {};
+
+        Object.keys(process.env).forEach((key) => {
+
+            previous[key] = process.env[key];
+
+        });
+
+        Object.keys(environment).forEach((key) => {
+
+            process.env[key] = environment[key];
+
+        });
+
+        return previous;
+    }
+
+    static restoreEnvironment (
+        previous: {[key: string]: string | undefined}
+    ): void {
+
+        Object.keys(process.env).forEach((key) => {
+
+            if (!previous.hasOwnProperty(key)) delete process.env[key];
+
+        });
+
+        Object.keys(previous).forEach((key) => {
+
+            process.env[key] = previous[key];
+
+        });
+
+    }
+
+    /**
+     * Runs the events of a test one after another,
+     * like a single Lambda container does
+     *
+     * @param {Function} handler
+     * @param {LambdaConfig} config
+     * @param {LambdaTest} test
+     * @returns {Promise.<LambdaTestResult>}
+     */
+    static runTest (
+        handler: Function,
+        config: LambdaConfig,
+        test: LambdaTest
+    ): Promise<LambdaTestResult> {
+
+        let results: Array<EventTestResult> = [];
+        let start = Date.now();
+
+        return test.events.reduce<Promise<any>>((previous, event, index) => {
+
+            return previous.then(() => {
+
+                return Runner.checkEventTest(
+                    index,
+                    test.expect ? test.expect[index] : null,
+                    Date.now(),
+                    Runner.executeEventTest(
+                        handler,
+                        config,
+                        test.context,
+                        event
+                    )
+                );
+
+            }).then((result) => {
+
+                results.push(result);
+
+            });
+
+        }, Promise.resolve())
+            .then(() => {
+
+                return {
+                    name: test.name,
+                    passed: results.every((result) => result.passed),
+                    duration: Date.now() - start,
+                    events: results
+                };
+
+            });
+
+    }
+
+    /**
+     * Runs a test in a new Node.js process with its own environment,
+     * so module state does not leak between tests
+     *
+     * @param {LambdaConfig} config
+     * @param {LambdaTest} test
+     * @param {Object.<string, string>} environment
+     * @returns {Promise.<LambdaTestResult>}
+     */
+    static runIsolated (
+        config: LambdaConfig,
+        test: LambdaTest,
+        environment: {[key: string]: string}
+    ): Promise<LambdaTestResult> {
+
+        let start = Date.now();
+        let env: {[key: string]: string | undefined} = {};
+
+        Object.keys(process.env).forEach((key) => {
+
+            env[key] = process.env[key];
+
+        });
+
+        Object.keys(environment).forEach((key) => {
+
+            env[key] = environment[key];
+
+        });
+
+        return new Promise<LambdaTestResult>((resolve) => {
+
+            let finished = false;
+
+            let worker = childProcess.fork(Runner.FILE_WORKER, [], {
+                cwd: process.cwd(),
+                env: env
+            });
+
+            let timer = setTimeout(() => {
+
+                worker.kill();
+
+                onError('Test process did not finish in time');
+
+            }, test.events.length * Runner.getTimeout(config) * 1000 +
+                Runner.WORKER_GRACE);
+
+            worker.on('message', (result: LambdaTestResult) => {
+
+                if (finished) return;
+
+                finished = true;
+                clearTimeout(timer);
+
+                resolve(result);
+
+            });
+
+            worker.on('error', (err) => {
+
+                onError('Test process failed: ' + Assert.getMessage(err));
+
+            });
+
+            worker.on('exit', (code) => {
+
+                onError(`Test process exited with code ${code}`);
+
+            });
+
+            let message: WorkerMessage = {
+                config: config,
+                test: test
+            };
+
+            worker.send(message);
+
+            function onError (error: string) {
+
+                if (finished) return;
+
+                finished = true;
+                clearTimeout(timer);
+
+                resolve(Runner.createFailedResult(test, error, start));
+
+            }
+
+        });
+
+    }
+
+    /**
+     * Converts an error to the format AWS Lambda reports,
+     * which survives being sent between processes
+     *
+     * @param {*} error
+     * @returns {*}
+     */
+    static serializeError (error: any): any {
+
+        if (error instanceof Error) {
+
+            return {
+                errorMessage: error.message,
+                errorType: error.name,
+                stackTrace: (error.stack || '').split('\n').slice(1)
+                    .map((line) => line.trim())
+            };
+
+        }
+
+        return error;
+    }
+
+    private static createFailedResult (
+        test: LambdaTest,
+        error: string,
+        start: number
+    ): LambdaTestResult {
+
+        return {
+            name: test.name,
+            passed: false,
+            duration: Date.now() - start,
+            events: test.events.map((event, index) => {
+
+                return {
+                    index: index,
+                    passed: false,
+                    duration: 0,
+                    error: error,
+                    failures: ['error: ' + error]
+                };
+
+            })
+        };
+
+    }
+
+    private static getTimeout (config: LambdaConfig): number {
+
+        return typeof config.Timeout === 'number' &&
+            config.Timeout > 0 ? config.Timeout
+            : Runner.DEFAULT_TIMEOUT;
+
+    }
+
+    private static checkEventTest (
+        index: number,
+        expectation: LambdaExpectation | null | undefined,
+        start: number,
+        execution: Promise<any>
+    ): Promise<EventTestResult> {
+
+        return execution
+            .then(
+                (result) => {
+
+                    let failures = Assert.check(expectation, null, result);
+
+                    return {
+                        index: index,
+                        passed: failures.length === 0,
+                        duration: Date.now() - start,
+                        result: result,
+                        failures: failures
+                    };
+
+                },
+                (error) => {
+
+                    let failures = Assert.check(expectation, error, undefined);
+
+                    return {
+                        index: index,
+                        passed: failures.length === 0,
+                        duration: Date.now() - start,
+                        error: error,
+                        failures: failures
+                    };
+
+                }
+            );
+
+    }
+
+    /**
+     * Invokes the handler with a context like AWS Lambda provides,
+     * the properties of the test context override the defaults.
+     * The handler either calls the callback or returns a Promise.
+     * The invocation fails when it takes longer than the configured Timeout.
+     *
+     * @param {Function} handler
+     * @param {LambdaConfig} config
+     * @param {Object} context
+     * @param {Object} event
+     * @returns {Promise}
+     */
+    static executeEventTest (
+        handler: Function,
+        config: LambdaConfig,
+        context: object | null | undefined,
+        event: object | null | undefined
+    ) {
+
+        let timeout = Runner.getTimeout(config);
+
+        return new Promise((resolve, reject) => {
+
+            let finished = false;
+            let invoking = true;
+            let returnedPromise = false;
+            let callbackArgs: Array<any> | undefined;
+
+            let timer = setTimeout(() => {
+
+                let message =
+                    `Task timed out after ${timeout.toFixed(2)} seconds`;
+
+                onResult(returnedPromise ? message
+                    : message + ', ' + Runner.ERR_HANDLER_NO_RESULT);
+
+            }, timeout * 1000);
+
+            let lambdaContext = Object.assign(
+                new LambdaContext(
+                    config,
+                    Date.now() + timeout * 1000,
+                    onCallback
+                ),
+                context
+            );
+
+            let result;
+
+            try {
+
+                result = handler(event, lambdaContext, onCallback);
+
+            } catch (e) {
+
+                invoking = false;
+                onResult(e);
+
+                return;
+
+            }
+
+            invoking = false;
+
+            if (Util.isThenable(result)) {
+
+                returnedPromise = true;
+
+                if (callbackArgs) {
+
+                    onResult(Runner.ERR_HANDLER_CALLBACK_AND_PROMISE);
+
+                } else {
+
+                    result.then(
+                        (data) => {
+
+                            onResult(null, data);
+
+                        },
+                        (err) => {
+
+                            onResult(err || 'Handler Promise rejected');
+
+                        }
+                    );
+
+                }
+
+            } else if (callbackArgs) {
+
+                onResult(callbackArgs[0], callbackArgs[1]);
+
+            }
+
+            function onCallback (err: any, data?: any) {
+
+                if (invoking) {
+
+                    // Handled once the handler returns
+                    if (!callbackArgs) callbackArgs = [err, data];
+
+                } else if (returnedPromise) {
+
+                    onResult(Runner.ERR_HANDLER_CALLBACK_AND_PROMISE);
+
+                } else {
+
+                    onResult(err, data);
+
+                }
+
+            }
+
+            function onResult (err: any, data?: any) {
+
+                if (finished) return;
+
+                finished = true;
+                clearTimeout(timer);
+
+                err ? reject(err)
+                    : resolve(data);
+
+            }
+
+        });
+
+    }
+}
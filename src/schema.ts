@@ -0,0 +1,652 @@
+// Node JS dependencies
+import * as os from 'os';
+
+// Local dependencies
+import {ConfigError} from './errors';
+import {LambdaRuntime, SchemaViolation} from './types';
+
+type Check = (
+    value: any,
+    path: string,
+    violations: Array<SchemaViolation>
+) => void;
+
+interface StringRule {
+    readonly min?: number,
+    readonly max?: number,
+    readonly pattern?: RegExp,
+    readonly description?: string
+}
+
+interface NumberRule {
+    readonly integer?: boolean,
+    readonly min?: number,
+    readonly max?: number,
+    readonly above?: number
+}
+
+/**
+ * Validates the config files and reports every problem with its JSON path
+ */
+export default class Schema {
+
+    public static readonly RUNTIMES: Array<LambdaRuntime> = [
+        'nodejs4.3',
+        'nodejs6.10',
+        'nodejs8.10',
+        'nodejs10.x',
+        'nodejs12.x',
+        'nodejs14.x',
+        'nodejs16.x',
+        'nodejs18.x',
+        'nodejs20.x',
+        'nodejs22.x'
+    ];
+
+    private static readonly REGEX_JSON_STRING =
+        /"(?:[^"\\\u0000-\u001f]|\\["\\\/bfnrt]|\\u[0-9a-fA-F]{4})*"/y;
+    private static readonly REGEX_JSON_LITERAL =
+        /true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+    private static readonly STRING_ARRAY = Schema.array(Schema.string());
+    private static readonly STRING_MAP = Schema.map(Schema.string());
+    private static readonly ROLE_ARN = Schema.string({
+        pattern: /^(arn:aws[a-z-]*:iam::\d{12}:role\/\S+)?$/,
+        description: 'an IAM role ARN'
+    });
+
+    private static readonly PACKAGE = Schema.object({
+        include: Schema.STRING_ARRAY,
+        exclude: Schema.STRING_ARRAY,
+        nodeModules: Schema.oneOf(['copy', 'install', 'none'])
+    }, ['include']);
+
+    private static readonly TRAFFIC_SHIFTING = Schema.object({
+        type: Schema.oneOf(['canary', 'linear']),
+        percentage: Schema.number({above: 0, max: 100}),
+        interval: Schema.number({min: 0}),
+        healthCheck: Schema.STRING_ARRAY
+    }, ['type', 'percentage', 'interval']);
+
+    private static readonly EVENT_SOURCE = Schema.object({
+        EventSourceArn: Schema.string({min: 1}),
+        BatchSize: Schema.number({integer: true, min: 1, max: 10000}),
+        StartingPosition: Schema.oneOf(['LATEST', 'TRIM_HORIZON']),
+        Enabled: Schema.boolean()
+    }, ['EventSourceArn']);
+
+    private static readonly PERMISSION = Schema.object({
+        Principal: Schema.string({min: 1}),
+        SourceArn: Schema.string(),
+        SourceAccount: Schema.string({
+            pattern: /^\d{12}$/,
+            description: 'a 12 digit account ID'
+        }),
+        Action: Schema.string({min: 1})
+    }, ['Principal']);
+
+    private static readonly EXECUTION_ROLE = Schema.object({
+        managedPolicies: Schema.STRING_ARRAY,
+        inlinePolicies: Schema.map(Schema.object({}, []))
+    }, []);
+
+    private static readonly CONFIG = Schema.object({
+        archiveName: Schema.string({min: 1}),
+        FunctionName: Schema.string({
+            pattern: /^[a-zA-Z0-9_-]{1,64}$/,
+            description: 'a name of up to 64 letters, digits, - or _'
+        }),
+        Description: Schema.string({max: 256}),
+        Handler: Schema.string({
+            max: 128,
+            pattern: /^\S+\.[^\s./]+$/,
+            description: 'a handler like file.function'
+        }),
+        Publish: Schema.boolean(),
+        Runtime: Schema.oneOf(Schema.RUNTIMES),
+        MemorySize: Schema.number({integer: true, min: 128, max: 10240}),
+        Timeout: Schema.number({integer: true, min: 1, max: 900}),
+        VpcConfig: Schema.object({
+            SubnetIds: Schema.STRING_ARRAY,
+            SecurityGroupIds: Schema.STRING_ARRAY
+        }, ['SubnetIds', 'SecurityGroupIds']),
+        DeadLetterConfig: Schema.object({
+            TargetArn: Schema.string()
+        }, ['TargetArn']),
+        TracingConfig: Schema.object({
+            Mode: Schema.oneOf(['Active', 'PassThrough'])
+        }, ['Mode']),
+        KMSKeyArn: Schema.string(),
+        Layers: Schema.array(Schema.string({min: 1}), 5),
+        Tags: Schema.STRING_MAP,
+        ReservedConcurrentExecutions: Schema.number({integer: true, min: 0}),
+        s3Bucket: Schema.string(),
+        s3KeyPrefix: Schema.string(),
+        alias: Schema.string({
+            pattern: /^(?!\d+$)[a-zA-Z0-9_-]{1,128}$/,
+            description: 'an alias name that is not a version number'
+        }),
+        trafficShifting: Schema.TRAFFIC_SHIFTING,
+        eventSources: Schema.array(Schema.EVENT_SOURCE),
+        permissions: Schema.array(Schema.PERMISSION),
+        executionRole: Schema.EXECUTION_ROLE,
+        package: Schema.PACKAGE
+    }, [
+        'archiveName',
+        'FunctionName',
+        'Description',
+        'Handler',
+        'Publish',
+        'Runtime',
+        'MemorySize',
+        'Timeout'
+    ]);
+
+    private static readonly SECRETS = Schema.object({
+        region: Schema.string(),
+        profile: Schema.string(),
+        accessKeyId: Schema.string(),
+        secretAccessKey: Schema.string(),
+        roleArn: Schema.ROLE_ARN,
+        externalId: Schema.string(),
+        mfaSerial: Schema.string(),
+        Role: Schema.ROLE_ARN,
+        Environment: Schema.object({
+            Variables: Schema.STRING_MAP
+        }, ['Variables'])
+    }, [
+        'region',
+        'profile',
+        'accessKeyId',
+        'secretAccessKey',
+        'Role',
+        'Environment'
+    ]);
+
+    private static readonly EXPECTATION = Schema.object({
+        error: Schema.either(
+            [Schema.string(), Schema.boolean()],
+            'a string or a boolean'
+        ),
+        paths: Schema.object({}, [])
+    }, []);
+
+    private static readonly TESTS = Schema.array(Schema.object({
+        name: Schema.string(),
+        context: Schema.nullable(Schema.object({}, [])),
+        events: Schema.array(Schema.any()),
+        expect: Schema.array(Schema.nullable(Schema.EXPECTATION)),
+        environment: Schema.STRING_MAP
+    }, ['context', 'events']));
+
+    /**
+     * @param {*} obj Content of lambda-config.json
+     * @returns {Array.<SchemaViolation>} Empty when valid
+     */
+    static validateConfig (obj: any): Array<SchemaViolation> {
+
+        return Schema.validate(Schema.CONFIG, obj);
+
+    }
+
+    /**
+     * @param {*} obj Content of lambda-secrets.json
+     * @returns {Array.<SchemaViolation>} Empty when valid
+     */
+    static validateSecrets (obj: any): Array<SchemaViolation> {
+
+        return Schema.validate(Schema.SECRETS, obj);
+
+    }
+
+    /**
+     * @param {*} obj Content of lambda-tests.json
+     * @returns {Array.<SchemaViolation>} Empty when valid
+     */
+    static validateTests (obj: any): Array<SchemaViolation> {
+
+        return Schema.validate(Schema.TESTS, obj);
+
+    }
+
+    /**
+     * Parses JSON, a syntax error names the line and the column
+     *
+     * @param {string} text
+     * @param {string} file Used in the error message
+     * @returns {*}
+     */
+    static parseJson (text: string, file: string): any {
+
+        try {
+
+            return JSON.parse(text);
+
+        } catch (e) {
+
+            // The position in the message of JSON.parse differs between
+            // Node.js versions, so the text is scanned again
+            let position = Schema.findSyntaxError(text);
+            let lines = text.substring(0, position).split('\n');
+            let token = position < text.length ?
+                `token ${JSON.stringify(text.charAt(position))}`
+                : 'end of input';
+
+            throw new ConfigError(
+                `Invalid JSON in ${file} at line ${lines.length}, ` +
+                `column ${lines[lines.length - 1].length + 1}: ` +
+                `unexpected ${token}`,
+                {file: file, cause: e}
+            );
+
+        }
+
+    }
+
+    /**
+     * @param {string} file
+     * @param {Array.<SchemaViolation>} violations
+     * @returns {string} One line per violation
+     */
+    static format (file: string, violations: Array<SchemaViolation>): string {
+
+        return [`Invalid ${file}:`].concat(violations.map((violation) => {
+
+            return '  ' + violation.path + ': ' + violation.message;
+
+        })).join(os.EOL);
+
+    }
+
+    /**
+     * @param {string} text
+     * @returns {number} Offset of the first character that is not valid JSON
+     */
+    private static findSyntaxError (text: string): number {
+
+        let i = 0;
+
+        let skip = () => {
+
+            while (/\s/.test(text.charAt(i)) && i < text.length) i++;
+
+        };
+
+        // Sticky patterns match exactly at lastIndex
+        let expect = (pattern: RegExp) => {
+
+            pattern.lastIndex = i;
+
+            let match = pattern.exec(text);
+
+            if (!match) throw i;
+
+            i += match[0].length;
+
+        };
+
+        let value = (): void => {
+
+            skip();
+
+            switch (text.charAt(i)) {
+                case '{':
+
+                    i++;
+                    skip();
+
+                    if (text.charAt(i) === '}') {
+                        i++;
+                        return;
+                    }
+
+                    for (;;) {
+
+                        skip();
+                        expect(Schema.REGEX_JSON_STRING);
+                        skip();
+                        expect(/:/y);
+                        value();
+                        skip();
+
+                        if (text.charAt(i) === '}') {
+                            i++;
+                            return;
+                        }
+
+                        expect(/,/y);
+                    }
+
+                case '[':
+
+                    i++;
+                    skip();
+
+                    if (text.charAt(i) === ']') {
+                        i++;
+                        return;
+                    }
+
+                    for (;;) {
+
+                        value();
+                        skip();
+
+                        if (text.charAt(i) === ']') {
+                            i++;
+                            return;
+                        }
+
+                        expect(/,/y);
+                    }
+
+                case '"':
+
+                    expect(Schema.REGEX_JSON_STRING);
+
+                    return;
+                default:
+
+                    expect(Schema.REGEX_JSON_LITERAL);
+            }
+
+        };
+
+        try {
+
+            value();
+            skip();
+
+        } catch (position) {
+
+            return position;
+
+        }
+
+        return i;
+
+    }
+
+    private static validate (check: Check, obj: any): Array<SchemaViolation> {
+
+        let violations: Array<SchemaViolation> = [];
+
+        check(obj, '$', violations);
+
+        return violations;
+
+    }
+
+    private static string (rule?: StringRule): Check {
+
+        let r = rule || {};
+
+        return (value, path, violations) => {
+
+            if (typeof value !== 'string') {
+
+                Schema.expect(violations, path, 'a string', value);
+
+            } else if (r.pattern && !r.pattern.test(value)) {
+
+                Schema.expect(violations, path, r.description || '', value);
+
+            } else if (r.min !== undefined && value.length < r.min) {
+
+                Schema.expect(violations, path, r.min === 1 ?
+                    'a non-empty string'
+                    : `at least ${r.min} characters`, value);
+
+            } else if (r.max !== undefined && value.length > r.max) {
+
+                Schema.expect(violations, path,
+                    `at most ${r.max} characters`, value);
+
+            }
+
+        };
+
+    }
+
+    private static number (rule: NumberRule): Check {
+
+        let limits: Array<string> = [];
+
+        if (rule.min !== undefined && rule.max !== undefined) {
+
+            limits.push(`between ${rule.min} and ${rule.max}`);
+
+        } else {
+
+            if (rule.min !== undefined) limits.push(`at least ${rule.min}`);
+            if (rule.above !== undefined) {
+                limits.push(`greater than ${rule.above}`);
+            }
+            if (rule.max !== undefined) limits.push(`at most ${rule.max}`);
+
+        }
+
+        let expected = (rule.integer ? 'an integer' : 'a number') +
+            (limits.length > 0 ? ' ' + limits.join(' and ') : '');
+
+        return (value, path, violations) => {
+
+            if (typeof value !== 'number' ||
+                !isFinite(value) ||
+                rule.integer && Math.floor(value) !== value ||
+                rule.min !== undefined && value < rule.min ||
+                rule.above !== undefined && value <= rule.above ||
+                rule.max !== undefined && value > rule.max) {
+
+                Schema.expect(violations, path, expected, value);
+
+            }
+
+        };
+
+    }
+
+    private static boolean (): Check {
+
+        return (value, path, violations) => {
+
+            if (typeof value !== 'boolean') {
+
+                Schema.expect(violations, path, 'a boolean', value);
+
+            }
+
+        };
+
+    }
+
+    private static any (): Check {
+
+        return () => undefined;
+
+    }
+
+    private static oneOf (values: Array<string>): Check {
+
+        return (value, path, violations) => {
+
+            if (values.indexOf(value) === -1) {
+
+                Schema.expect(violations, path,
+                    'one of ' + values.join(', '), value);
+
+            }
+
+        };
+
+    }
+
+    private static either (checks: Array<Check>, expected: string): Check {
+
+        return (value, path, violations) => {
+
+            let valid = checks.some((check) => {
+
+                let found: Array<SchemaViolation> = [];
+
+                check(value, path, found);
+
+                return found.length === 0;
+
+            });
+
+            if (!valid) Schema.expect(violations, path, expected, value);
+
+        };
+
+    }
+
+    private static nullable (check: Check): Check {
+
+        return (value, path, violations) => {
+
+            if (value !== null) check(value, path, violations);
+
+        };
+
+    }
+
+    private static array (item: Check, max?: number): Check {
+
+        return (value, path, violations) => {
+
+            if (!Array.isArray(value)) {
+
+                Schema.expect(violations, path, 'an array', value);
+
+                return;
+            }
+
+            if (max !== undefined && value.length > max) {
+
+                violations.push({
+                    path: path,
+                    message: `expected at most ${max} items, ` +
+                        `got ${value.length}`
+                });
+
+            }
+
+            value.forEach((element, index) => {
+
+                item(element, path + '[' + index + ']', violations);
+
+            });
+
+        };
+
+    }
+
+    private static map (item: Check): Check {
+
+        return (value, path, violations) => {
+
+            if (!Schema.isPlainObject(value)) {
+
+                Schema.expect(violations, path, 'an object', value);
+
+                return;
+            }
+
+            Object.keys(value).forEach((key) => {
+
+                item(value[key], Schema.getPath(path, key), violations);
+
+            });
+
+        };
+
+    }
+
+    private static object (
+        fields: {[name: string]: Check},
+        required: Array<string>
+    ): Check {
+
+        return (value, path, violations) => {
+
+            if (!Schema.isPlainObject(value)) {
+
+                Schema.expect(violations, path, 'an object', value);
+
+                return;
+            }
+
+            required.forEach((name) => {
+
+                if (!value.hasOwnProperty(name)) {
+
+                    violations.push({
+                        path: Schema.getPath(path, name),
+                        message: 'is required'
+                    });
+
+                }
+
+            });
+
+            Object.keys(fields).forEach((name) => {
+
+                if (value.hasOwnProperty(name) && value[name] !== undefined) {
+
+                    fields[name](
+                        value[name],
+                        Schema.getPath(path, name),
+                        violations
+                    );
+
+                }
+
+            });
+
+        };
+
+    }
+
+    private static expect (
+        violations: Array<SchemaViolation>,
+        path: string,
+        expected: string,
+        value: any
+    ): void {
+
+        violations.push({
+            path: path,
+            message: `expected ${expected}, got ${Schema.describe(value)}`
+        });
+
+    }
+
+    private static describe (value: any): string {
+
+        if (value === undefined) return 'nothing';
+        if (Array.isArray(value)) return 'an array';
+        if (value === null) return 'null';
+        if (typeof value === 'object') return 'an object';
+
+        let text = JSON.stringify(value);
+
+        return text.length > 40 ? text.substring(0, 37) + '...' : text;
+
+    }
+
+    private static getPath (path: string, key: string): string {
+
+        return /^[a-zA-Z_$][\w$]*$/.test(key) ? path + '.' + key
+            : path + '[' + JSON.stringify(key) + ']';
+
+    }
+
+    private static isPlainObject (value: any): boolean {
+
+        return typeof value === 'object' &&
+            value !== null &&
+            !Array.isArray(value);
+
+    }
+}
@@ -0,0 +1,264 @@
+// Node JS dependencies
+import * as fs from 'fs';
+
+// AWS SDK dependencies
+import SecretsManager = require('aws-sdk/clients/secretsmanager');
+import SSM = require('aws-sdk/clients/ssm');
+
+// Local dependencies
+import {AwsApiError, ConfigError} from './errors';
+
+export interface SecretClients {
+    readonly ssm: SSM,
+    readonly secretsManager: SecretsManager
+}
+
+/**
+ * Resolves environment variables written as references, like
+ * ${ssm:/app/db/password}, ${secretsmanager:name#key}, ${env:NAME}
+ * or ${file:./x}. Other values, like file:///data/app.db, stay as they are.
+ * Errors name the variable and the reference, never the value.
+ */
+export default class SecretResolver {
+
+    private static readonly REGEX_REFERENCE =
+        /^\$\{(ssm|secretsmanager|env|file):([^}]+)\}$/;
+
+    /**
+     * @param {Object.<string, string>} variables
+     * @param {Function} createClients Only called when a reference
+     *                                 needs AWS
+     * @param {string} file Config file named in errors
+     * @returns {Promise.<Object.<string, string>>} Copy with the references
+     *                                             replaced by their values
+     */
+    static resolve (
+        variables: {[name: string]: string},
+        createClients: () => SecretClients,
+        file: string
+    ): Promise<{[name: string]: string}> {
+
+        let clients: SecretClients | undefined;
+        let getClients = () => clients || (clients = createClients());
+
+        // A secret with several keys is requested once
+        let requests: {[id: string]: Promise<string>} = {};
+        let request = (id: string, send: () => Promise<string>) => {
+
+            return requests[id] || (requests[id] = send());
+
+        };
+
+        let names = Object.keys(variables);
+
+        return Promise.all(names.map((name) => {
+
+            let value = variables[name];
+            let match = SecretResolver.REGEX_REFERENCE.exec(value);
+
+            if (!match) return Promise.resolve(value);
+
+            let reference = match[2];
+            let result: Promise<string>;
+
+            switch (match[1]) {
+                case 'ssm':
+
+                    result = request('ssm:' + reference, () => {
+
+                        return SecretResolver.getParameter(
+                            getClients().ssm,
+                            reference
+                        );
+
+                    });
+
+                    break;
+                case 'secretsmanager':
+
+                    let index = reference.indexOf('#');
+                    let secretId = index === -1 ? reference
+                        : reference.substring(0, index);
+
+                    result = request('secretsmanager:' + secretId, () => {
+
+                        return SecretResolver.getSecretString(
+                            getClients().secretsManager,
+                            secretId
+                        );
+
+                    });
+
+                    if (index !== -1) {
+
+                        result = result.then((secret) => {
+
+                            return SecretResolver.readKey(
+                                secret,
+                                reference.substring(index + 1)
+                            );
+
+                        });
+
+                    }
+
+                    break;
+                case 'env':
+
+                    result = process.env.hasOwnProperty(reference) ?
+                        Promise.resolve(<string> process.env[reference])
+                        : Promise.reject(new Error(
+                            `Environment variable ${reference} is not set`
+                        ));
+
+                    break;
+                default:
+
+                    result = SecretResolver.readFile(reference);
+            }
+
+            return result.catch((err) => {
+
+                throw new ConfigError(
+                    `Failed to resolve ${name} from ${value}: ` +
+                    (err && err.message || err),
+                    {
+                        file: file,
+                        field: 'Environment.Variables.' + name,
+                        cause: err
+                    }
+                );
+
+            });
+
+        }))
+            .then((values) => {
+
+                let resolved: {[name: string]: string} = {};
+
+                names.forEach((name, index) => {
+
+                    resolved[name] = values[index];
+
+                });
+
+                return resolved;
+
+            });
+
+    }
+
+    /**
+     * Takes a key of a secret holding JSON, the parse error is replaced
+     * because it can quote the secret
+     *
+     * @param {string} secret
+     * @param {string} key
+     * @returns {string}
+     */
+    private static readKey (secret: string, key: string): string {
+
+        let object: any;
+
+        try {
+
+            object = JSON.parse(secret);
+
+        } catch (e) {
+
+            throw new Error('Secret is not a JSON object');
+
+        }
+
+        if (typeof object !== 'object' || object === null ||
+            !object.hasOwnProperty(key)) {
+
+            throw new Error(`Secret has no key ${key}`);
+
+        }
+
+        let value = object[key];
+
+        return typeof value === 'string' ? value : JSON.stringify(value);
+
+    }
+
+    /**
+     * @param {string} file Relative to the working directory
+     * @returns {Promise.<string>} Content without the final line break
+     */
+    private static readFile (file: string): Promise<string> {
+
+        return new Promise((resolve, reject) => {
+
+            fs.readFile(file, 'utf8', (err, data) => {
+
+                err ? reject(err) : resolve(data.replace(/\r?\n$/, ''));
+
+            });
+
+        });
+
+    }
+
+    private static getParameter (ssm: SSM, name: string): Promise<string> {
+
+        return new Promise((resolve, reject) => {
+
+            ssm.getParameter({
+                Name: name,
+                WithDecryption: true
+            }, (err, data) => {
+
+                if (err) {
+
+                    reject(new AwsApiError('getParameter', err));
+
+                } else if (!data.Parameter ||
+                    typeof data.Parameter.Value !== 'string') {
+
+                    reject(new Error('Parameter has no value'));
+
+                } else {
+
+                    resolve(data.Parameter.Value);
+
+                }
+
+            });
+
+        });
+
+    }
+
+    private static getSecretString (
+        secretsManager: SecretsManager,
+        secretId: string
+    ): Promise<string> {
+
+        return new Promise((resolve, reject) => {
+
+            secretsManager.getSecretValue({
+                SecretId: secretId
+            }, (err, data) => {
+
+                if (err) {
+
+                    reject(new AwsApiError('getSecretValue', err));
+
+                } else if (typeof data.SecretString !== 'string') {
+
+                    reject(new Error('Secret has no SecretString'));
+
+                } else {
+
+                    resolve(data.SecretString);
+
+                }
+
+            });
+
+        });
+
+    }
+}
@@ -0,0 +1,421 @@
+// Node JS dependencies
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import * as url from 'url';
+
+// Local dependencies
+import Assert from './assert';
+import {GaldError} from './errors';
+import Runner from './runner';
+import Util from './util';
+import {
+    LambdaConfig,
+    ServeOptions
+} from './types';
+
+/**
+ * Local HTTP server that invokes the handler like API Gateway does
+ * with a Lambda proxy integration
+ */
+export default class Server {
+
+    private readonly config: LambdaConfig;
+    private readonly options: ServeOptions;
+    private readonly baseDir: string;
+
+    private handler: Function | null = null;
+    private watchers: Array<fs.FSWatcher> = [];
+
+    private static readonly DEFAULT_PORT = 3000;
+
+    private static readonly IGNORED_DIRECTORIES = [
+        '.git',
+        '.idea',
+        'node_modules'
+    ];
+
+    private static readonly REGEX_TEXT_TYPE = new RegExp(
+        '^(text/|application/(json|javascript|xml|x-www-form-urlencoded))' +
+        '|\\+(json|xml)'
+    );
+
+    constructor (config: LambdaConfig, options: ServeOptions) {
+
+        this.config = config;
+        this.options = options;
+        this.baseDir = process.cwd();
+
+    }
+
+    /**
+     * Starts listening and watching the source files
+     *
+     * @returns {Promise.<http.Server>}
+     */
+    start (): Promise<http.Server> {
+
+        let server = http.createServer((request, response) => {
+
+            this.onRequest(request, response);
+
+        });
+
+        server.on('close', () => {
+
+            this.watchers.forEach((watcher) => watcher.close());
+            this.watchers = [];
+
+        });
+
+        this.watch(this.baseDir);
+
+        return new Promise((resolve, reject) => {
+
+            server.once('error', (err) => {
+
+                reject(new GaldError(
+                    GaldError.SERVER,
+                    'Failed to start server: ' + Assert.getMessage(err),
+                    {field: 'port', cause: err}
+                ));
+
+            });
+
+            server.listen(this.options.port || Server.DEFAULT_PORT, () => {
+
+                resolve(server);
+
+            });
+
+        });
+
+    }
+
+    private onRequest (
+        request: http.IncomingMessage,
+        response: http.ServerResponse
+    ): void {
+
+        let chunks: Array<Buffer> = [];
+
+        request.on('data', (chunk: Buffer) => {
+
+            chunks.push(chunk);
+
+        });
+
+        request.on('end', () => {
+
+            let start = Date.now();
+            let event = Server.createEvent(request, Buffer.concat(chunks));
+
+            new Promise((resolve) => {
+
+                resolve(Runner.executeEventTest(
+                    this.getHandler(),
+                    this.config,
+                    null,
+                    event
+                ));
+
+            })
+                .then(
+                    (result) => {
+
+                        try {
+
+                            Server.sendResult(response, result);
+
+                        } catch (e) {
+
+                            // Like a header value Node.js refuses to write
+                            this.log('Error: ' + Assert.getMessage(e));
+
+                            response.headersSent ? response.end()
+                                : Server.sendError(response);
+
+                        }
+
+                    },
+                    (error) => {
+
+                        this.log('Error: ' + Assert.getMessage(error));
+
+                        Server.sendError(response);
+
+                    }
+                )
+                .then(() => {
+
+                    this.log(request.method + ' ' + request.url + ' ' +
+                        response.statusCode + ' ' + (Date.now() - start) +
+                        ' ms');
+
+                });
+
+        });
+
+    }
+
+    /**
+     * Loads the handler, again after a source file changed
+     *
+     * @returns {Function}
+     */
+    private getHandler (): Function {
+
+        if (!this.handler) {
+
+            Object.keys(require.cache).forEach((file) => {
+
+                if (Server.isSourceFile(this.baseDir, file)) {
+
+                    delete require.cache[file];
+                }
+
+            });
+
+            this.handler = Runner.loadHandler(this.config);
+
+        }
+
+        return this.handler;
+    }
+
+    //region Watch
+
+    private watch (dir: string): void {
+
+        let names: Array<string>;
+
+        try {
+
+            this.watchers.push(fs.watch(dir, () => {
+
+                if (this.handler) this.log('Source changed, reloading handler');
+
+                this.handler = null;
+
+            }));
+
+            names = fs.readdirSync(dir);
+
+        } catch (e) {
+
+            return;
+        }
+
+        names.forEach((name) => {
+
+            if (Server.IGNORED_DIRECTORIES.indexOf(name) !== -1) return;
+
+            let file = path.join(dir, name);
+
+            try {
+
+                if (fs.statSync(file).isDirectory()) this.watch(file);
+
+            } catch (e) {
+
+                // Removed in the meantime
+            }
+
+        });
+
+    }
+
+    private static isSourceFile (baseDir: string, file: string): boolean {
+
+        let relative = path.relative(baseDir, file);
+
+        return (
+            relative.length > 0 &&
+            relative.split(path.sep)[0] !== '..' &&
+            relative.split(path.sep).indexOf('node_modules') === -1
+        );
+    }
+
+    //endregion
+
+    //region API Gateway
+
+    /**
+     * Creates an API Gateway proxy event for a request
+     *
+     * @param {http.IncomingMessage} request
+     * @param {Buffer} body
+     * @returns {Object}
+     */
+    private static createEvent (
+        request: http.IncomingMessage,
+        body: Buffer
+    ): object {
+
+        let parsedUrl = url.parse(request.url || '/', true);
+        let requestPath = parsedUrl.pathname || '/';
+
+        let headers: {[key: string]: string} = {};
+        let multiValueHeaders: {[key: string]: Array<string>} = {};
+
+        let i;
+        for (i = 0; i < request.rawHeaders.length; i += 2) {
+
+            let name = request.rawHeaders[i];
+            let value = request.rawHeaders[i + 1];
+
+            headers[name] = value;
+            multiValueHeaders[name] = (multiValueHeaders[name] || [])
+                .concat(value);
+        }
+
+        let query: {[key: string]: string} | null = null;
+        let multiValueQuery: {[key: string]: Array<string>} | null = null;
+
+        Object.keys(parsedUrl.query).forEach((key) => {
+
+            let value = parsedUrl.query[key];
+            let values: Array<string> = Array.isArray(value) ? value : [value];
+
+            query = query || {};
+            multiValueQuery = multiValueQuery || {};
+
+            query[key] = values[values.length - 1];
+            multiValueQuery[key] = values;
+
+        });
+
+        let contentType = request.headers['content-type'];
+        let isText = !Util.isNEString(contentType) ||
+            Server.REGEX_TEXT_TYPE.test(contentType);
+        let httpMethod = request.method || 'GET';
+
+        return {
+            resource: '/{proxy+}',
+            path: requestPath,
+            httpMethod: httpMethod,
+            headers: headers,
+            multiValueHeaders: multiValueHeaders,
+            queryStringParameters: query,
+            multiValueQueryStringParameters: multiValueQuery,
+            pathParameters: {
+                proxy: requestPath.replace(/^\//, '')
+            },
+            stageVariables: null,
+            requestContext: {
+                accountId: '000000000000',
+                resourceId: 'local',
+                stage: 'local',
+                requestId: crypto.randomBytes(16).toString('hex'),
+                identity: {
+                    sourceIp: request.connection.remoteAddress,
+                    userAgent: request.headers['user-agent']
+                },
+                resourcePath: '/{proxy+}',
+                httpMethod: httpMethod,
+                path: requestPath,
+                protocol: 'HTTP/' + request.httpVersion,
+                requestTimeEpoch: Date.now()
+            },
+            body: body.length === 0 ? null
+                : body.toString(isText ? 'utf8' : 'base64'),
+            isBase64Encoded: body.length > 0 && !isText
+        };
+    }
+
+    /**
+     * Writes a proxy integration result to the response,
+     * like API Gateway a malformed result is a 502
+     *
+     * @param {http.ServerResponse} response
+     * @param {*} result
+     */
+    private static sendResult (
+        response: http.ServerResponse,
+        output: any
+    ): void {
+
+        if (!Server.isProxyResult(output)) {
+
+            Server.sendError(response);
+
+            return;
+        }
+
+        let result: any = output;
+
+        let headers: {[key: string]: string | Array<string>} = {};
+
+        if (Util.isObject(result.multiValueHeaders)) {
+
+            Object.keys(result.multiValueHeaders).forEach((key) => {
+
+                headers[key] = result.multiValueHeaders[key].map(String);
+
+            });
+        }
+
+        if (Util.isObject(result.headers)) {
+
+            Object.keys(result.headers).forEach((key) => {
+
+                headers[key] = String(result.headers[key]);
+
+            });
+        }
+
+        let body = typeof result.body === 'string' ? result.body : '';
+
+        response.writeHead(result.statusCode, headers);
+        response.end(result.isBase64Encoded ?
+            Buffer.from(body, 'base64') : body);
+
+    }
+
+    /**
+     * @param {*} output
+     * @returns {boolean} True when the status code is valid
+     *                    and every multi value header is a list
+     */
+    private static isProxyResult (output: any): boolean {
+
+        if (!Util.isObject(output)) return false;
+
+        let result: any = output;
+        let statusCode = result.statusCode;
+
+        if (typeof statusCode !== 'number' || statusCode % 1 !== 0 ||
+            statusCode < 100 || statusCode > 599) {
+
+            return false;
+        }
+
+        let multiValueHeaders = result.multiValueHeaders;
+
+        return !Util.isObject(multiValueHeaders) ||
+            Object.keys(multiValueHeaders).every((key) => {
+
+                return Array.isArray(multiValueHeaders[key]);
+
+            });
+    }
+
+    private static sendError (response: http.ServerResponse): void {
+
+        // A failed writeHead can leave the reason of another status behind
+        response.writeHead(502, http.STATUS_CODES[502], {
+            'Content-Type': 'application/json'
+        });
+        response.end(JSON.stringify({message: 'Internal server error'}));
+
+    }
+
+    //endregion
+
+    private log (message: string): void {
+
+        if (this.options.log) this.options.log(message);
+
+    }
+}
@@ -1,8 +1,146 @@
-export type LambdaRuntime = 'nodejs6.10' | 'nodejs4.3';
+export type LambdaRuntime =
+    'nodejs4.3' |
+    'nodejs6.10' |
+    'nodejs8.10' |
+    'nodejs10.x' |
+    'nodejs12.x' |
+    'nodejs14.x' |
+    'nodejs16.x' |
+    'nodejs18.x' |
+    'nodejs20.x' |
+    'nodejs22.x';
+
+export type PackageModules = 'copy' | 'install' | 'none';
+
+export type TestReporter = 'pretty' | 'json' | 'junit' | 'tap';
+
+export type TrafficShiftingType = 'canary' | 'linear';
+
+export type TracingMode = 'Active' | 'PassThrough';
+
+export type StartingPosition = 'LATEST' | 'TRIM_HORIZON';
+
+export type EventSource =
+    'apigateway' |
+    'dynamodb' |
+    'kinesis' |
+    's3' |
+    'schedule' |
+    'sns' |
+    'sqs';
+
+export type MfaTokenProvider = (serialNumber: string) => Promise<string>;
+
+export interface LambdaOptions {
+    readonly stage?: string,
+    readonly mfaToken?: MfaTokenProvider
+}
+
+export interface TestOptions {
+    readonly isolate?: boolean,
+    readonly concurrency?: number,
+    readonly remote?: boolean,
+    readonly qualifier?: string
+}
+
+export interface InvokeOptions {
+    readonly eventFile?: string,
+    readonly testName?: string,
+    readonly testFileName?: string,
+    readonly qualifier?: string,
+    readonly async?: boolean
+}
+
+export interface ServeOptions {
+    readonly port?: number,
+    readonly log?: (message: string) => void
+}
+
+export interface EventTestOptions {
+    readonly name?: string,
+    readonly testFileName?: string
+}
 
 export interface DeployOptions {
     readonly create?: boolean,
-    readonly updateConfig?: boolean
+    readonly updateConfig?: boolean,
+    readonly prune?: boolean,
+    readonly createRole?: boolean,
+    readonly log?: (message: string) => void
+}
+
+export interface RollbackOptions {
+    readonly to?: string
+}
+
+export interface PullOptions {
+    readonly region?: string,
+    readonly profile?: string,
+    readonly omitEnvironment?: boolean,
+    readonly code?: boolean,
+    readonly overwrite?: boolean
+}
+
+export interface CallerIdentity {
+    readonly account: string,
+    readonly arn: string,
+    readonly userId: string,
+    readonly region: string,
+    readonly credentials: string
+}
+
+export interface LogsOptions {
+    readonly since?: string,
+    readonly filter?: string,
+    readonly follow?: boolean,
+    readonly interval?: number
+}
+
+export interface PackageConfig {
+    readonly include: Array<string>,
+    readonly exclude?: Array<string>,
+    readonly nodeModules?: PackageModules
+}
+
+export interface VpcConfig {
+    readonly SubnetIds: Array<string>,
+    readonly SecurityGroupIds: Array<string>
+}
+
+export interface DeadLetterConfig {
+    readonly TargetArn: string
+}
+
+export interface TracingConfig {
+    readonly Mode: TracingMode
+}
+
+export interface EventSourceMappingConfig {
+    readonly EventSourceArn: string,
+    readonly BatchSize?: number,
+    readonly StartingPosition?: StartingPosition,
+    readonly Enabled?: boolean
+}
+
+export interface PermissionConfig {
+    readonly Principal: string,
+    readonly SourceArn?: string,
+    readonly SourceAccount?: string,
+    readonly Action?: string
+}
+
+export interface ExecutionRoleConfig {
+    readonly managedPolicies?: Array<string>,
+    readonly inlinePolicies?: {
+        readonly [name: string]: object
+    }
+}
+
+export interface TrafficShiftingConfig {
+    readonly type: TrafficShiftingType,
+    readonly percentage: number,
+    readonly interval: number,
+    readonly healthCheck?: Array<string>
 }
 
 export interface LambdaConfig {
@@ -13,7 +151,24 @@ export interface LambdaConfig {
     readonly Publish: boolean,
     readonly Runtime: LambdaRuntime,
     readonly MemorySize: number,
-    readonly Timeout: number
+    readonly Timeout: number,
+    readonly VpcConfig?: VpcConfig,
+    readonly DeadLetterConfig?: DeadLetterConfig,
+    readonly TracingConfig?: TracingConfig,
+    readonly KMSKeyArn?: string,
+    readonly Layers?: Array<string>,
+    readonly Tags?: {
+        readonly [key: string]: string
+    },
+    readonly ReservedConcurrentExecutions?: number,
+    readonly s3Bucket?: string,
+    readonly s3KeyPrefix?: string,
+    readonly alias?: string,
+    readonly trafficShifting?: TrafficShiftingConfig,
+    readonly eventSources?: Array<EventSourceMappingConfig>,
+    readonly permissions?: Array<PermissionConfig>,
+    readonly executionRole?: ExecutionRoleConfig,
+    readonly package?: PackageConfig
 }
 
 export interface LambdaSecrets {
@@ -21,6 +176,9 @@ export interface LambdaSecrets {
     readonly profile: string,
     readonly accessKeyId: string,
     readonly secretAccessKey: string,
+    readonly roleArn?: string,
+    readonly externalId?: string,
+    readonly mfaSerial?: string,
     readonly Role: string,
     readonly Environment: {
         readonly Variables: {
@@ -29,10 +187,93 @@ export interface LambdaSecrets {
     }
 }
 
+export interface LambdaExpectation {
+    readonly result?: any,
+    readonly error?: string | boolean,
+    readonly match?: any,
+    readonly paths?: {
+        readonly [path: string]: any
+    }
+}
+
 export interface LambdaTest {
     readonly name?: string,
     readonly context: object,
-    readonly events: Array<object>
+    readonly events: Array<object>,
+    readonly expect?: Array<LambdaExpectation | null>,
+    readonly environment?: {
+        readonly [key: string]: string
+    }
+}
+
+export interface EventTestResult {
+    readonly index: number,
+    readonly passed: boolean,
+    readonly duration: number,
+    readonly result?: any,
+    readonly error?: any,
+    readonly failures: Array<string>
+}
+
+export interface LambdaTestResult {
+    readonly name?: string,
+    readonly passed: boolean,
+    readonly duration: number,
+    readonly events: Array<EventTestResult>
+}
+
+export type ConfigChangeAction = 'add' | 'remove' | 'update';
+
+export interface ConfigChange {
+    readonly field: string,
+    readonly action: ConfigChangeAction,
+    readonly remote?: any,
+    readonly local?: any
+}
+
+export interface LambdaPlan {
+    readonly FunctionName: string,
+    readonly exists: boolean,
+    readonly changes: Array<ConfigChange>,
+    readonly codeChanged: boolean
+}
+
+export interface InvokeResult {
+    readonly StatusCode: number,
+    readonly ExecutedVersion?: string,
+    readonly FunctionError?: string,
+    readonly payload?: any,
+    readonly log?: string
+}
+
+export interface SchemaViolation {
+    readonly path: string,
+    readonly message: string
+}
+
+export interface LambdaVersion {
+    readonly Version: string,
+    readonly CodeSha256: string,
+    readonly Description: string,
+    readonly LastModified: string,
+    readonly aliases: Array<string>
+}
+
+export interface LogReport {
+    readonly requestId: string,
+    readonly duration: number,
+    readonly billedDuration: number,
+    readonly memorySize: number,
+    readonly maxMemoryUsed: number,
+    readonly initDuration?: number
+}
+
+export interface LogEvent {
+    readonly eventId: string,
+    readonly timestamp: number,
+    readonly logStreamName: string,
+    readonly message: string,
+    readonly report?: LogReport
 }
 
 export default class GdwAwsLambdaType {
@@ -48,7 +289,182 @@ export default class GdwAwsLambdaType {
             obj.hasOwnProperty('Publish') &&
             obj.hasOwnProperty('Runtime') &&
             obj.hasOwnProperty('MemorySize') &&
-            obj.hasOwnProperty('Timeout')
+            obj.hasOwnProperty('Timeout') &&
+            (
+                obj.VpcConfig === undefined ||
+                typeof obj.VpcConfig === 'object' &&
+                obj.VpcConfig !== null &&
+                GdwAwsLambdaType.isStringArray(obj.VpcConfig.SubnetIds) &&
+                GdwAwsLambdaType.isStringArray(obj.VpcConfig.SecurityGroupIds)
+            ) &&
+            (
+                obj.DeadLetterConfig === undefined ||
+                typeof obj.DeadLetterConfig === 'object' &&
+                obj.DeadLetterConfig !== null &&
+                typeof obj.DeadLetterConfig.TargetArn === 'string'
+            ) &&
+            (
+                obj.TracingConfig === undefined ||
+                typeof obj.TracingConfig === 'object' &&
+                obj.TracingConfig !== null &&
+                (
+                    obj.TracingConfig.Mode === 'Active' ||
+                    obj.TracingConfig.Mode === 'PassThrough'
+                )
+            ) &&
+            (
+                obj.KMSKeyArn === undefined ||
+                typeof obj.KMSKeyArn === 'string'
+            ) &&
+            (
+                obj.Layers === undefined ||
+                GdwAwsLambdaType.isStringArray(obj.Layers)
+            ) &&
+            (
+                obj.Tags === undefined ||
+                GdwAwsLambdaType.isStringMap(obj.Tags)
+            ) &&
+            (
+                obj.ReservedConcurrentExecutions === undefined ||
+                typeof obj.ReservedConcurrentExecutions === 'number' &&
+                obj.ReservedConcurrentExecutions >= 0
+            ) &&
+            (
+                obj.s3Bucket === undefined ||
+                typeof obj.s3Bucket === 'string'
+            ) &&
+            (
+                obj.s3KeyPrefix === undefined ||
+                typeof obj.s3KeyPrefix === 'string'
+            ) &&
+            (
+                obj.alias === undefined ||
+                typeof obj.alias === 'string'
+            ) &&
+            (
+                obj.trafficShifting === undefined ||
+                GdwAwsLambdaType.isTrafficShiftingConfig(obj.trafficShifting)
+            ) &&
+            (
+                obj.eventSources === undefined ||
+                Array.isArray(obj.eventSources) &&
+                obj.eventSources.every(
+                    GdwAwsLambdaType.isEventSourceMappingConfig
+                )
+            ) &&
+            (
+                obj.permissions === undefined ||
+                Array.isArray(obj.permissions) &&
+                obj.permissions.every(GdwAwsLambdaType.isPermissionConfig)
+            ) &&
+            (
+                obj.executionRole === undefined ||
+                GdwAwsLambdaType.isExecutionRoleConfig(obj.executionRole)
+            ) &&
+            (
+                obj.package === undefined ||
+                GdwAwsLambdaType.isPackageConfig(obj.package)
+            )
+        );
+    }
+
+    static isPackageConfig (obj: any): obj is PackageConfig {
+        return (
+            typeof obj === 'object' &&
+            obj !== null &&
+            GdwAwsLambdaType.isStringArray(obj.include) &&
+            (
+                obj.exclude === undefined ||
+                GdwAwsLambdaType.isStringArray(obj.exclude)
+            ) &&
+            (
+                obj.nodeModules === undefined ||
+                obj.nodeModules === 'copy' ||
+                obj.nodeModules === 'install' ||
+                obj.nodeModules === 'none'
+            )
+        );
+    }
+
+    static isTrafficShiftingConfig (
+        obj: any
+    ): obj is TrafficShiftingConfig {
+        return (
+            typeof obj === 'object' &&
+            obj !== null &&
+            (obj.type === 'canary' || obj.type === 'linear') &&
+            typeof obj.percentage === 'number' &&
+            obj.percentage > 0 &&
+            obj.percentage <= 100 &&
+            typeof obj.interval === 'number' &&
+            obj.interval >= 0 &&
+            (
+                obj.healthCheck === undefined ||
+                GdwAwsLambdaType.isStringArray(obj.healthCheck)
+            )
+        );
+    }
+
+    static isEventSourceMappingConfig (
+        obj: any
+    ): obj is EventSourceMappingConfig {
+        return (
+            typeof obj === 'object' &&
+            obj !== null &&
+            typeof obj.EventSourceArn === 'string' &&
+            obj.EventSourceArn.length > 0 &&
+            (
+                obj.BatchSize === undefined ||
+                typeof obj.BatchSize === 'number' &&
+                obj.BatchSize > 0
+            ) &&
+            (
+                obj.StartingPosition === undefined ||
+                obj.StartingPosition === 'LATEST' ||
+                obj.StartingPosition === 'TRIM_HORIZON'
+            ) &&
+            (
+                obj.Enabled === undefined ||
+                typeof obj.Enabled === 'boolean'
+            )
+        );
+    }
+
+    static isPermissionConfig (obj: any): obj is PermissionConfig {
+        return (
+            typeof obj === 'object' &&
+            obj !== null &&
+            typeof obj.Principal === 'string' &&
+            obj.Principal.length > 0 &&
+            (
+                obj.SourceArn === undefined ||
+                typeof obj.SourceArn === 'string'
+            ) &&
+            (
+                obj.SourceAccount === undefined ||
+                typeof obj.SourceAccount === 'string'
+            ) &&
+            (
+                obj.Action === undefined ||
+                typeof obj.Action === 'string'
+            )
+        );
+    }
+
+    static isExecutionRoleConfig (obj: any): obj is ExecutionRoleConfig {
+        return (
+            typeof obj === 'object' &&
+            obj !== null &&
+            (
+                obj.managedPolicies === undefined ||
+                GdwAwsLambdaType.isStringArray(obj.managedPolicies)
+            ) &&
+            (
+                obj.inlinePolicies === undefined ||
+                typeof obj.inlinePolicies === 'object' &&
+                obj.inlinePolicies !== null &&
+                !Array.isArray(obj.inlinePolicies)
+            )
         );
     }
 
@@ -70,10 +486,62 @@ export default class GdwAwsLambdaType {
             typeof obj === 'object' &&
             obj !== null &&
             obj.hasOwnProperty('context') &&
-            obj.hasOwnProperty('events')
+            Array.isArray(obj.events) &&
+            (
+                obj.expect === undefined ||
+                GdwAwsLambdaType.isLambdaExpectations(obj.expect)
+            ) &&
+            (
+                obj.environment === undefined ||
+                GdwAwsLambdaType.isStringMap(obj.environment)
+            )
         );
     }
 
+    static isLambdaExpectation (obj: any): obj is LambdaExpectation {
+        return (
+            typeof obj === 'object' &&
+            obj !== null &&
+            !Array.isArray(obj) &&
+            (
+                obj.error === undefined ||
+                typeof obj.error === 'string' ||
+                typeof obj.error === 'boolean'
+            ) &&
+            (
+                obj.paths === undefined ||
+                typeof obj.paths === 'object' &&
+                obj.paths !== null &&
+                !Array.isArray(obj.paths)
+            )
+        );
+    }
+
+    static isLambdaExpectations (
+        obj: any
+    ): obj is Array<LambdaExpectation | null> {
+
+        if (Array.isArray(obj)) {
+
+            let i, length;
+
+            length = obj.length;
+            for (i = 0; i < length; i++) {
+
+                if (obj[i] !== null &&
+                    !GdwAwsLambdaType.isLambdaExpectation(obj[i])) {
+
+                    return false;
+                }
+            }
+
+            return true;
+
+        }
+
+        return false;
+    }
+
     static isLambdaTests (obj: any): obj is LambdaTest[] {
 
         if (Array.isArray(obj)) {
@@ -92,4 +560,40 @@ export default class GdwAwsLambdaType {
 
         return false;
     }
+
+    private static isStringMap (
+        obj: any
+    ): obj is {[key: string]: string} {
+
+        if (typeof obj === 'object' && obj !== null && !Array.isArray(obj)) {
+
+            return Object.keys(obj).every((key) => {
+
+                return typeof obj[key] === 'string';
+
+            });
+
+        }
+
+        return false;
+    }
+
+    private static isStringArray (obj: any): obj is Array<string> {
+
+        if (Array.isArray(obj)) {
+
+            let i, length;
+
+            length = obj.length;
+            for (i = 0; i < length; i++) {
+
+                if (typeof obj[i] !== 'string') return false;
+            }
+
+            return true;
+
+        }
+
+        return false;
+    }
 }
@@ -1,3 +1,6 @@
+// Node JS dependencies
+import * as crypto from 'crypto';
+
 export default class Util {
 
     /**
@@ -42,4 +45,155 @@ export default class Util {
             (Array.isArray(obj) && obj.length === 0)
         );
     }
+
+    /**
+     * Checks for a Promise or any other object with a then method
+     *
+     * @param {*} obj
+     * @returns {boolean}
+     */
+    static isThenable (obj: any | null | undefined): obj is PromiseLike<any> {
+        return (
+            (typeof obj === 'object' || typeof obj === 'function') &&
+            obj !== null &&
+            typeof obj.then === 'function'
+        );
+    }
+
+    /**
+     * Merges an override into a base object without changing either.
+     * Nested objects are merged, any other value is replaced.
+     *
+     * @param {Object} base
+     * @param {Object} override
+     * @returns {Object}
+     */
+    static merge (base: any, override: any): any {
+
+        if (!Util.isPlainObject(base) || !Util.isPlainObject(override)) {
+
+            return override;
+        }
+
+        let result: any = {};
+
+        Object.keys(base).forEach((key) => {
+
+            result[key] = base[key];
+
+        });
+
+        Object.keys(override).forEach((key) => {
+
+            result[key] = result.hasOwnProperty(key) ?
+                Util.merge(result[key], override[key]) : override[key];
+
+        });
+
+        return result;
+    }
+
+    /**
+     * Checks for a non-null object that is not an Array
+     *
+     * @param {*} obj
+     * @returns {boolean}
+     */
+    static isPlainObject (obj: any | null | undefined): boolean {
+        return (
+            Util.isObject(obj) &&
+            !Array.isArray(obj)
+        );
+    }
+
+    /**
+     * Creates a random UUID (version 4)
+     *
+     * @returns {string}
+     */
+    static createUuid (): string {
+
+        let bytes = crypto.randomBytes(16);
+
+        bytes[6] = (bytes[6] & 0x0f) | 0x40;
+        bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+        let hex = bytes.toString('hex');
+
+        return [
+            hex.substring(0, 8),
+            hex.substring(8, 12),
+            hex.substring(12, 16),
+            hex.substring(16, 20),
+            hex.substring(20)
+        ].join('-');
+    }
+
+    /**
+     * Maps items to Promises with a maximum number running at once,
+     * the results keep the order of the items
+     *
+     * @param {Array} items
+     * @param {number} limit No limit when 0
+     * @param {Function} iterator
+     * @returns {Promise.<Array>}
+     */
+    static mapLimit<T, R> (
+        items: Array<T>,
+        limit: number,
+        iterator: (item: T, index: number) => Promise<R>
+    ): Promise<Array<R>> {
+
+        let results: Array<R> = [];
+        let next = 0;
+
+        let workers = limit > 0 ? Math.min(limit, items.length)
+            : items.length;
+
+        function run (): Promise<any> {
+
+            if (next >= items.length) return Promise.resolve();
+
+            let index = next++;
+
+            return iterator(items[index], index)
+                .then((result) => {
+
+                    results[index] = result;
+
+                    return run();
+
+                });
+        }
+
+        let promises: Array<Promise<any>> = [];
+
+        let i;
+        for (i = 0; i < workers; i++) {
+
+            promises.push(run());
+        }
+
+        return Promise.all(promises)
+            .then(() => {
+
+                return results;
+
+            });
+    }
+
+    /**
+     * Resolves after a number of milliseconds
+     *
+     * @param {number} ms
+     * @returns {Promise}
+     */
+    static delay (ms: number): Promise<void> {
+
+        return new Promise<void>((resolve) => {
+
+            setTimeout(resolve, ms);
+
+        });
+    }
 }
@@ -0,0 +1,92 @@
+// Runs a single Lambda test in a separate process, see Runner.runIsolated
+
+// Local dependencies
+import Assert from './assert';
+import Runner from './runner';
+import {WorkerMessage} from './runner';
+import {LambdaTestResult} from './types';
+
+process.once('message', (message: WorkerMessage) => {
+
+    new Promise<LambdaTestResult>((resolve) => {
+
+        resolve(Runner.runTest(
+            Runner.loadHandler(message.config),
+            message.config,
+            message.test
+        ));
+
+    })
+        .then((result) => {
+
+            return {
+                name: result.name,
+                passed: result.passed,
+                duration: result.duration,
+                events: result.events.map((event) => {
+
+                    if (!event.hasOwnProperty('error')) return event;
+
+                    return {
+                        index: event.index,
+                        passed: event.passed,
+                        duration: event.duration,
+                        error: Runner.serializeError(event.error),
+                        failures: event.failures
+                    };
+
+                })
+            };
+
+        })
+        .then(
+            (result) => {
+
+                send(result);
+
+            },
+            (error) => {
+
+                let serialized = Runner.serializeError(error);
+
+                send({
+                    name: message.test.name,
+                    passed: false,
+                    duration: 0,
+                    events: message.test.events.map((event, index) => {
+
+                        return {
+                            index: index,
+                            passed: false,
+                            duration: 0,
+                            error: serialized,
+                            failures: [
+                                'error: ' + Assert.getMessage(serialized)
+                            ]
+                        };
+
+                    })
+                });
+
+            }
+        );
+
+});
+
+function send (result: LambdaTestResult) {
+
+    if (process.send) {
+
+        // Handlers can leave timers or sockets open
+        process.send(result, () => {
+
+            process.exit(0);
+
+        });
+
+    } else {
+
+        process.exit(1);
+
+    }
+}
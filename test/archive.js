@@ -0,0 +1,121 @@
+'use strict';
+
+// The archive must be a valid zip that does not change
+// when the files are only touched.
+// Run with npm test from the root of the module.
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const zlib = require('zlib');
+
+const Archive = require('../lib/archive').default;
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gald-archive-'));
+
+fs.mkdirSync(path.join(dir, 'lib'));
+fs.writeFileSync(path.join(dir, 'handler.js'), 'exports.handler = 1;\n');
+fs.writeFileSync(path.join(dir, 'lib', 'util.js'), 'module.exports = 2;\n');
+fs.writeFileSync(path.join(dir, 'lib', 'util.test.js'), 'test();\n');
+fs.writeFileSync(path.join(dir, 'README.md'), '# Readme\n');
+fs.writeFileSync(path.join(dir, 'run.sh'), '#!/bin/sh\n', {mode: 0o755});
+
+const config = {
+    include: ['*.js', '*.sh', 'lib'],
+    exclude: ['**/*.test.js'],
+    nodeModules: 'none'
+};
+
+/**
+ * Reads the entries through the central directory,
+ * like unzip does
+ *
+ * @param {Buffer} buffer
+ * @returns {Array.<Object>}
+ */
+function readZip (buffer) {
+
+    let end = buffer.length - 22;
+
+    assert.strictEqual(buffer.readUInt32LE(end), 0x06054b50);
+
+    let count = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+    let entries = [];
+
+    for (let i = 0; i < count; i++) {
+
+        assert.strictEqual(buffer.readUInt32LE(offset), 0x02014b50);
+
+        let nameLength = buffer.readUInt16LE(offset + 28);
+        let extraLength = buffer.readUInt16LE(offset + 30);
+        let commentLength = buffer.readUInt16LE(offset + 32);
+        let local = buffer.readUInt32LE(offset + 42);
+
+        assert.strictEqual(buffer.readUInt32LE(local), 0x04034b50);
+
+        let dataStart = local + 30 + buffer.readUInt16LE(local + 26) +
+            buffer.readUInt16LE(local + 28);
+        let compressed = buffer.slice(
+            dataStart,
+            dataStart + buffer.readUInt32LE(offset + 20)
+        );
+        let data = zlib.inflateRawSync(compressed);
+
+        assert.strictEqual(data.length, buffer.readUInt32LE(offset + 24));
+
+        entries.push({
+            name: buffer.toString(
+                'utf8',
+                offset + 46,
+                offset + 46 + nameLength
+            ),
+            mode: buffer.readUInt32LE(offset + 38) >>> 16,
+            data: data.toString('utf8')
+        });
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
+
+let first;
+
+Archive.create(dir, config)
+    .then((buffer) => {
+
+        first = buffer;
+
+        let entries = readZip(buffer);
+
+        assert.deepStrictEqual(
+            entries.map((entry) => entry.name),
+            ['handler.js', 'lib/util.js', 'run.sh']
+        );
+        assert.strictEqual(entries[1].data, 'module.exports = 2;\n');
+        assert.strictEqual(entries[0].mode, 0o100644);
+        assert.strictEqual(entries[2].mode, 0o100755);
+
+        let later = new Date(Date.now() + 60000);
+
+        fs.utimesSync(path.join(dir, 'handler.js'), later, later);
+
+        return Archive.create(dir, config);
+
+    })
+    .then((buffer) => {
+
+        assert.ok(buffer.equals(first), 'Archive changed after touch');
+
+        console.log('Archive test passed');
+
+    })
+    .catch((error) => {
+
+        console.error(error);
+
+        process.exitCode = 1;
+
+    });
@@ -0,0 +1,86 @@
+'use strict';
+
+// Expectations of lambda-tests.json: exact and partial matches,
+// JSON paths and expected errors.
+// Run with npm test from the root of the module.
+
+const assert = require('assert');
+
+const Assert = require('../lib/assert').default;
+
+const result = {
+    statusCode: 200,
+    body: {items: [{id: 1, name: 'a'}, {id: 2, name: 'b'}]}
+};
+
+// Exact results list every difference with its path
+assert.deepStrictEqual(Assert.check({result: result}, null, result), []);
+assert.deepStrictEqual(
+    Assert.check({result: {statusCode: 201}}, null, result),
+    [
+        'result.statusCode: expected 201, received 200',
+        'result.body: unexpected, received ' + JSON.stringify(result.body)
+    ]
+);
+
+// Partial matches ignore what is not expected
+assert.deepStrictEqual(
+    Assert.check({match: {body: {items: [{id: 1}]}}}, null, result),
+    []
+);
+assert.deepStrictEqual(
+    Assert.check({match: {body: {items: [{id: 1}, {id: 3}]}}}, null, result),
+    ['result.body.items[1].id: expected 3, received 2']
+);
+assert.deepStrictEqual(
+    Assert.check({match: {body: {items: [{}, {}, {id: 3}]}}}, null, result),
+    ['result.body.items[2]: expected {"id":3}, missing']
+);
+assert.deepStrictEqual(
+    Assert.check({match: {headers: {}}}, null, result),
+    ['result.headers: expected {}, missing']
+);
+
+// JSON paths
+assert.deepStrictEqual(
+    Assert.check({
+        paths: {
+            '$.statusCode': 200,
+            '$.body.items[1].name': 'b'
+        }
+    }, null, result),
+    []
+);
+assert.deepStrictEqual(
+    Assert.check({
+        paths: {
+            '$.body.items[0].name': 'b',
+            '$.body.items[5].id': 6
+        }
+    }, null, result),
+    [
+        '$.body.items[0].name: expected "b", received "a"',
+        '$.body.items[5].id: expected 6, path not found'
+    ]
+);
+
+// Errors
+assert.deepStrictEqual(Assert.check(null, null, result), []);
+assert.deepStrictEqual(
+    Assert.check(null, new Error('boom'), undefined),
+    ['error: unexpected error "boom"']
+);
+assert.deepStrictEqual(
+    Assert.check({error: true}, {errorMessage: 'boom'}, undefined),
+    []
+);
+assert.deepStrictEqual(
+    Assert.check({error: 'bang'}, new Error('boom'), undefined),
+    ['error: expected "bang", received "boom"']
+);
+assert.deepStrictEqual(
+    Assert.check({error: true}, null, 1),
+    ['error: expected an error, received result 1']
+);
+
+console.log('Assert test passed');
@@ -0,0 +1,89 @@
+'use strict';
+
+// Tests that override environment variables must not see each other's
+// values, even when the handler waits on async work,
+// and an invalid secrets file fails the tests.
+// Run with npm test from the root of the module.
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const {GdwAwsLambda} = require('../lib/main');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gald-env-'));
+
+fs.writeFileSync(path.join(dir, 'handler.js'), [
+    'exports.handler = (event, context, callback) => {',
+    '    let first = process.env.FOO;',
+    '    setTimeout(() => callback(null, first + process.env.FOO), event.wait);',
+    '};'
+].join('\n'));
+
+fs.writeFileSync(path.join(dir, 'lambda-config.json'), JSON.stringify({
+    archiveName: 'archive.zip',
+    FunctionName: 'gald-env',
+    Description: '',
+    Handler: 'handler.handler',
+    Publish: false,
+    Runtime: 'nodejs20.x',
+    MemorySize: 128,
+    Timeout: 3
+}));
+
+fs.writeFileSync(path.join(dir, 'lambda-tests.json'), JSON.stringify([
+    {
+        name: 'A',
+        context: {},
+        environment: {FOO: 'A'},
+        events: [{wait: 50}],
+        expect: [{result: 'AA'}]
+    },
+    {
+        name: 'B',
+        context: {},
+        environment: {FOO: 'B'},
+        events: [{wait: 10}],
+        expect: [{result: 'BB'}]
+    }
+]));
+
+process.chdir(dir);
+
+new GdwAwsLambda().test()
+    .then((results) => {
+
+        results.forEach((test) => {
+
+            assert.ok(test.passed, 'Test ' + test.name + ' failed: ' +
+                JSON.stringify(test.events));
+
+        });
+
+        // A broken secrets file must not silently drop its environment
+        fs.writeFileSync(path.join(dir, 'lambda-secrets.json'), '{"region":');
+
+        return new GdwAwsLambda().test().then(
+            () => assert.fail('Test ran with an invalid secrets file'),
+            (error) => {
+
+                assert.strictEqual(error.code, 'ERR_CONFIG');
+                assert.strictEqual(error.file, 'lambda-secrets.json');
+
+            }
+        );
+
+    })
+    .then(() => {
+
+        console.log('Environment test passed');
+
+    })
+    .catch((error) => {
+
+        console.error(error);
+
+        process.exitCode = 1;
+
+    });
@@ -0,0 +1,52 @@
+'use strict';
+
+// The --since option and the REPORT lines of the function logs.
+// Run with npm test from the root of the module.
+
+const assert = require('assert');
+
+const LogStream = require('../lib/logs').default;
+
+const now = Date.UTC(2020, 0, 2, 12, 0, 0);
+
+assert.strictEqual(LogStream.parseSince('30s', now), now - 30 * 1000);
+assert.strictEqual(LogStream.parseSince('10m', now), now - 10 * 60 * 1000);
+assert.strictEqual(LogStream.parseSince('2h', now), now - 2 * 3600 * 1000);
+assert.strictEqual(LogStream.parseSince('1d', now), now - 24 * 3600 * 1000);
+assert.strictEqual(
+    LogStream.parseSince('2020-01-01T00:00:00Z', now),
+    Date.UTC(2020, 0, 1)
+);
+assert.throws(
+    () => LogStream.parseSince('10 minutes', now),
+    (error) => error.code === 'ERR_INVALID_OPTION' && error.field === 'since'
+);
+
+assert.deepStrictEqual(
+    LogStream.parseReport(
+        'REPORT RequestId: 8f5c-11e9\tDuration: 12.34 ms\t' +
+        'Billed Duration: 100 ms\tMemory Size: 128 MB\t' +
+        'Max Memory Used: 64 MB\tInit Duration: 150.5 ms\t\n'
+    ),
+    {
+        requestId: '8f5c-11e9',
+        duration: 12.34,
+        billedDuration: 100,
+        memorySize: 128,
+        maxMemoryUsed: 64,
+        initDuration: 150.5
+    }
+);
+assert.strictEqual(
+    LogStream.parseReport(
+        'REPORT RequestId: 8f5c-11e9\tDuration: 1.5 ms\t' +
+        'Billed Duration: 2 ms\tMemory Size: 128 MB\tMax Memory Used: 60 MB'
+    ).initDuration,
+    undefined
+);
+assert.strictEqual(
+    LogStream.parseReport('START RequestId: 8f5c-11e9 Version: $LATEST'),
+    undefined
+);
+
+console.log('Logs test passed');
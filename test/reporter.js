@@ -0,0 +1,88 @@
+'use strict';
+
+// JUnit and TAP output of the test reporters, with names and failures
+// that need escaping.
+// Run with npm test from the root of the module.
+
+const assert = require('assert');
+const os = require('os');
+
+const Reporter = require('../lib/reporter').default;
+
+const results = [
+    {
+        name: 'a <b> & "c"',
+        passed: true,
+        duration: 12,
+        events: [
+            {index: 0, passed: true, duration: 12, result: 1, failures: []}
+        ]
+    },
+    {
+        name: 'd # todo',
+        passed: false,
+        duration: 1500,
+        events: [
+            {index: 0, passed: true, duration: 500, result: 2, failures: []},
+            {
+                index: 1,
+                passed: false,
+                duration: 1000,
+                error: new Error('\u001b[31mboom\u001b[39m'),
+                failures: ['error: unexpected error "x < y"']
+            }
+        ]
+    }
+];
+
+assert.strictEqual(Reporter.format(results, 'junit', false), [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<testsuites name="gald" tests="3" failures="1" time="1.512">',
+    '  <testsuite name="a &lt;b&gt; &amp; &quot;c&quot;" tests="1" ' +
+        'failures="0" time="0.012">',
+    '    <testcase classname="a &lt;b&gt; &amp; &quot;c&quot;" ' +
+        'name="event 0" time="0.012"/>',
+    '  </testsuite>',
+    '  <testsuite name="d # todo" tests="2" failures="1" time="1.500">',
+    '    <testcase classname="d # todo" name="event 0" time="0.500"/>',
+    '    <testcase classname="d # todo" name="event 1" time="1.000">',
+    '      <failure message="error: unexpected error &quot;x &lt; y&quot;">' +
+        'error: unexpected error &quot;x &lt; y&quot;' + os.EOL +
+        'Error: [31mboom[39m</failure>',
+    '    </testcase>',
+    '  </testsuite>',
+    '</testsuites>'
+].join(os.EOL));
+
+assert.strictEqual(Reporter.format(results, 'tap', false), [
+    'TAP version 13',
+    '1..3',
+    'ok 1 - a <b> & "c" event 0',
+    '  ---',
+    '  duration_ms: 12',
+    '  ...',
+    'ok 2 - d \\# todo event 0',
+    '  ---',
+    '  duration_ms: 500',
+    '  ...',
+    'not ok 3 - d \\# todo event 1',
+    '  ---',
+    '  duration_ms: 1000',
+    '  failures:',
+    '    - "error: unexpected error \\"x < y\\""',
+    '  ...'
+].join(os.EOL));
+
+let json = JSON.parse(Reporter.format(results, 'json', false));
+
+assert.strictEqual(json.passed, false);
+assert.strictEqual(json.total, 3);
+assert.strictEqual(json.failures, 1);
+assert.strictEqual(json.tests[1].events[1].error, '\u001b[31mboom\u001b[39m');
+
+assert.throws(
+    () => Reporter.format(results, 'xml', false),
+    (error) => error.code === 'ERR_INVALID_OPTION'
+);
+
+console.log('Reporter test passed');
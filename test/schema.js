@@ -0,0 +1,98 @@
+'use strict';
+
+// Syntax errors name the line and column, schema violations
+// the path of every invalid field.
+// Run with npm test from the root of the module.
+
+const assert = require('assert');
+const os = require('os');
+
+const Schema = require('../lib/schema').default;
+
+/**
+ * @param {string} text
+ * @returns {string} Message of the error of parseJson
+ */
+function parseError (text) {
+
+    try {
+
+        Schema.parseJson(text, 'lambda-config.json');
+
+    } catch (error) {
+
+        assert.strictEqual(error.code, 'ERR_CONFIG');
+        assert.strictEqual(error.file, 'lambda-config.json');
+
+        return error.message;
+    }
+
+    assert.fail('No error for ' + text);
+}
+
+assert.deepStrictEqual(
+    Schema.parseJson('{"a": [1, 2]}', 'lambda-config.json'),
+    {a: [1, 2]}
+);
+assert.strictEqual(
+    parseError('{\n  "a": 1,\n  "b": 2,\n}'),
+    'Invalid JSON in lambda-config.json at line 4, column 1: ' +
+    'unexpected token "}"'
+);
+assert.strictEqual(
+    parseError('{\n  "a": tru\n}'),
+    'Invalid JSON in lambda-config.json at line 2, column 8: ' +
+    'unexpected token "t"'
+);
+assert.strictEqual(
+    parseError('{"a": 1'),
+    'Invalid JSON in lambda-config.json at line 1, column 8: ' +
+    'unexpected end of input'
+);
+
+const config = {
+    archiveName: 'archive.zip',
+    FunctionName: 'my-function',
+    Description: '',
+    Handler: 'index.handler',
+    Publish: false,
+    Runtime: 'nodejs20.x',
+    MemorySize: 128,
+    Timeout: 3
+};
+
+assert.deepStrictEqual(Schema.validateConfig(config), []);
+
+let invalid = Object.assign({}, config, {
+    FunctionName: 'my function',
+    Runtime: 'python3.12',
+    MemorySize: '128'
+});
+
+delete invalid.Handler;
+
+let violations = Schema.validateConfig(invalid);
+
+assert.deepStrictEqual(
+    violations.map((violation) => violation.path).sort(),
+    ['$.FunctionName', '$.Handler', '$.MemorySize', '$.Runtime']
+);
+assert.ok(violations.every((violation) => !!violation.message));
+assert.deepStrictEqual(
+    violations.filter((violation) => violation.path === '$.Handler'),
+    [{path: '$.Handler', message: 'is required'}]
+);
+assert.ok(/got "python3\.12"$/.test(violations.filter((violation) => {
+
+    return violation.path === '$.Runtime';
+
+})[0].message));
+
+assert.strictEqual(
+    Schema.format('lambda-config.json', [
+        {path: '$.Timeout', message: 'is required'}
+    ]),
+    'Invalid lambda-config.json:' + os.EOL + '  $.Timeout: is required'
+);
+
+console.log('Schema test passed');
@@ -0,0 +1,34 @@
+'use strict';
+
+// The steps of gradual traffic shifting, the last one always
+// moves all traffic to the new version.
+// Run with npm test from the root of the module.
+
+const assert = require('assert');
+
+const {GdwAwsLambda} = require('../lib/main');
+
+/**
+ * @param {string} type
+ * @param {number} percentage
+ * @returns {Array.<number>}
+ */
+function weights (type, percentage) {
+
+    return GdwAwsLambda.getTrafficWeights({
+        type: type,
+        percentage: percentage,
+        interval: 1
+    });
+}
+
+assert.deepStrictEqual(weights('canary', 10), [10, 100]);
+assert.deepStrictEqual(weights('canary', 100), [100]);
+assert.deepStrictEqual(
+    weights('linear', 10),
+    [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+);
+assert.deepStrictEqual(weights('linear', 30), [30, 60, 90, 100]);
+assert.deepStrictEqual(weights('linear', 50), [50, 100]);
+
+console.log('Traffic test passed');